@@ -11,6 +11,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { App, CreateAppRequest, UpdateAppRequest } from "@/types/app";
 import { useCreateApp, useUpdateApp } from "@/hooks/apps";
+import { PromptPicker } from "@/components/PromptPicker";
 import { vectorStoreApi } from "@/lib/api";
 import { DEFAULT_MAX_TOKENS } from "@/constants/tokens";
 
@@ -18,9 +19,11 @@ interface AppFormModalProps {
   isOpen: boolean;
   onClose: () => void;
   app?: App; // If provided, we're editing; otherwise creating
+  /** Prefills a new app, e.g. from settings tuned in the Query Playground */
+  initialValues?: Partial<CreateAppRequest>;
 }
 
-export function AppFormModal({ isOpen, onClose, app }: AppFormModalProps) {
+export function AppFormModal({ isOpen, onClose, app, initialValues }: AppFormModalProps) {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
   const createApp = useCreateApp();
@@ -41,18 +44,18 @@ export function AppFormModal({ isOpen, onClose, app }: AppFormModalProps) {
     reset,
   } = useForm<CreateAppRequest>({
     defaultValues: {
-      name: app?.name || "",
-      description: app?.description || "",
-      knowledgeBaseId: app?.knowledgeBaseId || "",
-      systemPrompt: app?.systemPrompt || "You are a helpful AI assistant. Answer questions based on the provided context. If you don't know the answer, say so. Always cite your sources when possible.",
-      retrievalSettings: app?.retrievalSettings || {
+      name: app?.name || initialValues?.name || "",
+      description: app?.description || initialValues?.description || "",
+      knowledgeBaseId: app?.knowledgeBaseId || initialValues?.knowledgeBaseId || "",
+      systemPrompt: app?.systemPrompt || initialValues?.systemPrompt || "You are a helpful AI assistant. Answer questions based on the provided context. If you don't know the answer, say so. Always cite your sources when possible.",
+      retrievalSettings: app?.retrievalSettings || initialValues?.retrievalSettings || {
         top_k: 20,
         max_docs_for_context: 3,
         similarity_threshold: 0,
         include_metadata: false,
         query_expansion: false,
       },
-      generationSettings: app?.generationSettings || {
+      generationSettings: app?.generationSettings || initialValues?.generationSettings || {
         temperature: 0.7,
         max_tokens: DEFAULT_MAX_TOKENS,
         include_sources: true,
@@ -172,7 +175,13 @@ export function AppFormModal({ isOpen, onClose, app }: AppFormModalProps) {
 
           {/* System Prompt */}
           <div>
-            <Label htmlFor="systemPrompt">System Prompt *</Label>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="systemPrompt">System Prompt *</Label>
+              <PromptPicker
+                onInsert={(content) => setValue("systemPrompt", content, { shouldValidate: true })}
+                currentContent={watch("systemPrompt")}
+              />
+            </div>
             <Textarea
               id="systemPrompt"
               {...register("systemPrompt", { required: "System prompt is required" })}
@@ -1,22 +1,28 @@
 import { useState } from "react";
+import Link from "next/link";
 import { format } from "date-fns";
-import { Eye, Calendar, MessageSquare } from "lucide-react";
+import { Eye, Calendar, MessageSquare, Link2, MessageCircle, ExternalLink } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { AppRun } from "@/types/app";
 import { SourceDocumentCard } from "@/components/SourceDocumentCard";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
+import { ShareDialog } from "@/components/ShareDialog";
+import { appRunToMessages } from "@/lib/share";
+import { getMessageHref } from "@/lib/chat-search";
+import { Markdown } from "@/components/Markdown";
 import { Label } from "@/components/ui/label";
 
 interface AppHistoryTableProps {
   runs: AppRun[];
+  /** Used to title shared runs */
+  appName: string;
 }
 
-export function AppHistoryTable({ runs }: AppHistoryTableProps) {
+export function AppHistoryTable({ runs, appName }: AppHistoryTableProps) {
   const [selectedRun, setSelectedRun] = useState<AppRun | null>(null);
+  const [showShare, setShowShare] = useState(false);
 
   const formatDate = (dateString: string) => {
     try {
@@ -60,6 +66,12 @@ export function AppHistoryTable({ runs }: AppHistoryTableProps) {
                   <div className="flex items-center space-x-2">
                     <Calendar className="h-4 w-4 text-gray-500" />
                     <span className="text-sm">{formatDate(run.createdAt)}</span>
+                    {run.sessionId && (
+                      <Badge variant="outline" className="gap-1">
+                        <MessageCircle className="h-3 w-3" />
+                        Chat
+                      </Badge>
+                    )}
                   </div>
                 </TableCell>
                 <TableCell>
@@ -99,7 +111,23 @@ export function AppHistoryTable({ runs }: AppHistoryTableProps) {
       <Dialog open={!!selectedRun} onOpenChange={() => setSelectedRun(null)}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Run Details</DialogTitle>
+            <DialogTitle className="flex items-center justify-between pr-6">
+              <span>Run Details</span>
+              <div className="flex items-center gap-2">
+                {selectedRun?.sessionId && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={getMessageHref(selectedRun.sessionId, selectedRun.messageId)}>
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      Open chat
+                    </Link>
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => setShowShare(true)}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+              </div>
+            </DialogTitle>
           </DialogHeader>
 
           {selectedRun && (
@@ -122,9 +150,7 @@ export function AppHistoryTable({ runs }: AppHistoryTableProps) {
               <div className="space-y-3">
                 <Label className="text-base font-semibold">Answer</Label>
                 <div className="p-4 bg-gray-50 rounded-lg prose max-w-none">
-                  <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                    {selectedRun.answer}
-                  </ReactMarkdown>
+                  <Markdown>{selectedRun.answer}</Markdown>
                 </div>
               </div>
 
@@ -145,6 +171,19 @@ export function AppHistoryTable({ runs }: AppHistoryTableProps) {
           )}
         </DialogContent>
       </Dialog>
+
+      {selectedRun && (
+        <ShareDialog
+          open={showShare}
+          onOpenChange={setShowShare}
+          kind="app-run"
+          sourceId={selectedRun._id}
+          getSnapshot={() => ({
+            title: `${appName}: ${selectedRun.question || "Run"}`,
+            messages: appRunToMessages(selectedRun),
+          })}
+        />
+      )}
     </>
   );
 }
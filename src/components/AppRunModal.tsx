@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
-import { Play, X, Loader2, Eye, EyeOff } from "lucide-react";
+import { Play, X, Loader2, Eye, EyeOff, Link2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
@@ -12,8 +12,11 @@ import { App, RunAppRequest } from "@/types/app";
 import { useRunApp } from "@/hooks/apps";
 import { SourceDocument } from "@/types/api";
 import { SourceDocumentCard } from "@/components/SourceDocumentCard";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
+import { FeedbackControls } from "@/components/FeedbackControls";
+import { ShareDialog } from "@/components/ShareDialog";
+import { PromptPicker } from "@/components/PromptPicker";
+import { appRunToMessages } from "@/lib/share";
+import { Markdown } from "@/components/Markdown";
 import { MAX_COMPLETION_TOKENS, MIN_COMPLETION_TOKENS, TOKEN_STEP_SIZE } from "@/constants/tokens";
 
 interface AppRunModalProps {
@@ -25,7 +28,11 @@ interface AppRunModalProps {
 export function AppRunModal({ isOpen, onClose, app }: AppRunModalProps) {
   const [showSettings, setShowSettings] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
+  const [showShare, setShowShare] = useState(false);
   const [runResult, setRunResult] = useState<{
+    runId: string;
+    question: string;
+    overrides?: RunAppRequest["overrides"];
     answer: string;
     sourceDocuments: SourceDocument[];
   } | null>(null);
@@ -58,15 +65,19 @@ export function AppRunModal({ isOpen, onClose, app }: AppRunModalProps) {
     setRunResult(null);
     
     try {
+      const overrides = showSettings ? data.overrides : undefined;
       const result = await runApp.mutateAsync({
         id: app._id,
         data: {
           question: data.question || undefined,
-          overrides: showSettings ? data.overrides : undefined,
+          overrides,
         },
       });
 
       setRunResult({
+        runId: result.appRun._id,
+        question: data.question || "",
+        overrides,
         answer: result.answer,
         sourceDocuments: result.sourceDocuments,
       });
@@ -142,7 +153,13 @@ export function AppRunModal({ isOpen, onClose, app }: AppRunModalProps) {
             <div className="space-y-6 p-4 border rounded-lg bg-gray-50">
               {/* System Prompt */}
               <div>
-                <Label htmlFor="systemPrompt">System Prompt</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="systemPrompt">System Prompt</Label>
+                  <PromptPicker
+                    onInsert={(content) => setValue("overrides.systemPrompt", content)}
+                    currentContent={watchedOverrides?.systemPrompt}
+                  />
+                </div>
                 <Textarea
                   id="systemPrompt"
                   {...register("overrides.systemPrompt")}
@@ -279,18 +296,37 @@ export function AppRunModal({ isOpen, onClose, app }: AppRunModalProps) {
           <div className="space-y-6 pt-6 border-t">
             <div className="flex items-center justify-between">
               <h3 className="text-lg font-semibold">Results</h3>
-              <Button variant="outline" size="sm" onClick={handleNewRun}>
-                Run Again
-              </Button>
+              <div className="flex items-center gap-2">
+                <FeedbackControls
+                  getContext={() => ({
+                    origin: "app",
+                    appId: app._id,
+                    question: runResult.question,
+                    answer: runResult.answer,
+                    sources: runResult.sourceDocuments,
+                    settings: runResult.overrides ?? {
+                      systemPrompt: app.systemPrompt,
+                      retrievalSettings: app.retrievalSettings,
+                      generationSettings: app.generationSettings,
+                    },
+                    storeIds: [app.knowledgeBaseId],
+                  })}
+                />
+                <Button variant="outline" size="sm" onClick={() => setShowShare(true)}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Share
+                </Button>
+                <Button variant="outline" size="sm" onClick={handleNewRun}>
+                  Run Again
+                </Button>
+              </div>
             </div>
 
             {/* Answer */}
             <div className="space-y-3">
               <Label>Answer</Label>
               <div className="p-4 bg-gray-50 rounded-lg prose max-w-none">
-                <ReactMarkdown remarkPlugins={[remarkGfm]}>
-                  {runResult.answer}
-                </ReactMarkdown>
+                <Markdown>{runResult.answer}</Markdown>
               </div>
             </div>
 
@@ -307,6 +343,19 @@ export function AppRunModal({ isOpen, onClose, app }: AppRunModalProps) {
             )}
           </div>
         )}
+
+        {runResult && (
+          <ShareDialog
+            open={showShare}
+            onOpenChange={setShowShare}
+            kind="app-run"
+            sourceId={runResult.runId}
+            getSnapshot={() => ({
+              title: `${app.name}: ${runResult.question || "Run"}`,
+              messages: appRunToMessages(runResult),
+            })}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,80 @@
+import { useRef } from "react";
+import { Download, FileCode, FileJson, FileText, Link2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChatExportFormat } from "@/types/session";
+
+interface ChatExportMenuProps {
+  onExport: (format: ChatExportFormat) => void;
+  onImport: (file: File) => void;
+  onShare: () => void;
+  /** False while the conversation is empty */
+  canExport: boolean;
+  disabled?: boolean;
+}
+
+export function ChatExportMenu({ onExport, onImport, onShare, canExport, disabled }: ChatExportMenuProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex items-center gap-2"
+            disabled={disabled}
+            aria-label="Export or import conversation"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuLabel>Export conversation</DropdownMenuLabel>
+          <DropdownMenuItem disabled={!canExport} onSelect={() => onExport("markdown")}>
+            <FileText />
+            Markdown
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!canExport} onSelect={() => onExport("html")}>
+            <FileCode />
+            HTML
+          </DropdownMenuItem>
+          <DropdownMenuItem disabled={!canExport} onSelect={() => onExport("json")}>
+            <FileJson />
+            JSON
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem disabled={!canExport} onSelect={onShare}>
+            <Link2 />
+            Share link…
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()}>
+            <Upload />
+            Import JSON…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          // Allow importing the same file twice in a row
+          e.target.value = "";
+        }}
+      />
+    </>
+  );
+}
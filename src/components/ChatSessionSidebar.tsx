@@ -0,0 +1,231 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { History, Plus, Pencil, Trash2, Check, X, Loader2, MessageSquare } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { ConfirmationDialog } from "@/components/ConfirmationDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useChatSessions, useDeleteChatSession, useSaveChatSession } from "@/hooks/sessions";
+import { ChatSessionSummary } from "@/types/session";
+import { cn } from "@/lib/utils";
+
+interface ChatSessionSidebarProps {
+  open: boolean;
+  onClose: () => void;
+  activeSessionId: string;
+  onSelectSession: (sessionId: string) => void;
+  onNewSession: () => void;
+  onSessionDeleted: (sessionId: string) => void;
+}
+
+export function ChatSessionSidebar({
+  open,
+  onClose,
+  activeSessionId,
+  onSelectSession,
+  onNewSession,
+  onSessionDeleted,
+}: ChatSessionSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState("");
+  const [deletingSession, setDeletingSession] = useState<ChatSessionSummary | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useChatSessions();
+  const saveSession = useSaveChatSession();
+  const deleteSession = useDeleteChatSession();
+
+  const sessions = data?.sessions || [];
+
+  const startRename = (session: ChatSessionSummary) => {
+    setEditingId(session.sessionId);
+    setEditingTitle(session.title);
+  };
+
+  const handleRename = async () => {
+    if (!editingId) return;
+    const title = editingTitle.trim();
+    if (!title) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      await saveSession.mutateAsync({ id: editingId, data: { title } });
+      setEditingId(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rename session",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingSession) return;
+
+    try {
+      await deleteSession.mutateAsync(deletingSession.sessionId);
+      onSessionDeleted(deletingSession.sessionId);
+      toast({
+        title: "Session deleted",
+        description: `"${deletingSession.title}" has been removed.`,
+      });
+      setDeletingSession(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete session",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const formatUpdated = (dateString: string) => {
+    try {
+      return formatDistanceToNow(new Date(dateString), { addSuffix: true });
+    } catch {
+      return "";
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onClose}>
+        <SheetContent side="right" className="!w-[360px] !max-w-none flex flex-col">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Chat History
+            </SheetTitle>
+          </SheetHeader>
+
+          <Button onClick={onNewSession} className="mt-4 w-full">
+            <Plus className="h-4 w-4 mr-2" />
+            New Chat
+          </Button>
+
+          <div className="mt-4 flex-1 overflow-y-auto -mx-2 px-2 space-y-1">
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-12 w-full" />
+                ))}
+              </div>
+            ) : error ? (
+              <Alert variant="destructive">
+                <AlertDescription>Failed to load chat history</AlertDescription>
+              </Alert>
+            ) : sessions.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <MessageSquare className="mx-auto h-10 w-10 mb-3 opacity-50" />
+                <p className="text-sm">No saved conversations yet.</p>
+              </div>
+            ) : (
+              sessions.map((session) => {
+                const isActive = session.sessionId === activeSessionId;
+                const isEditing = session.sessionId === editingId;
+
+                return (
+                  <div
+                    key={session.sessionId}
+                    className={cn(
+                      "group flex items-center gap-2 rounded-md px-3 py-2 transition-colors",
+                      isActive ? "bg-neutral-100" : "hover:bg-neutral-50"
+                    )}
+                  >
+                    {isEditing ? (
+                      <>
+                        <Input
+                          value={editingTitle}
+                          onChange={(e) => setEditingTitle(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter") handleRename();
+                            if (e.key === "Escape") setEditingId(null);
+                          }}
+                          className="h-8"
+                          autoFocus
+                          aria-label="Session title"
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={handleRename}
+                          disabled={saveSession.isPending}
+                        >
+                          {saveSession.isPending ? (
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <Check className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-8 w-8 p-0"
+                          onClick={() => setEditingId(null)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          type="button"
+                          className="flex-1 min-w-0 text-left"
+                          onClick={() => onSelectSession(session.sessionId)}
+                        >
+                          <p className="truncate text-sm font-medium">{session.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {session.messageCount} message{session.messageCount !== 1 ? "s" : ""}
+                            {" • "}
+                            {formatUpdated(session.updatedAt)}
+                          </p>
+                        </button>
+                        <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0"
+                            onClick={() => startRename(session)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                            <span className="sr-only">Rename</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                            onClick={() => setDeletingSession(session)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete</span>
+                          </Button>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <ConfirmationDialog
+        open={!!deletingSession}
+        onOpenChange={(open) => !open && setDeletingSession(null)}
+        title="Delete Conversation"
+        description={`Are you sure you want to delete "${deletingSession?.title}"? This action cannot be undone.`}
+        confirmText="Delete"
+        onConfirm={handleDelete}
+        destructive={true}
+      />
+    </>
+  );
+}
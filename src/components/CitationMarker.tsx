@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { SourceDocument } from "@/types/api";
+import { formatScore } from "@/lib/api";
+
+interface CitationMarkerProps {
+  /** 1-based source number as written in the answer */
+  index: number;
+  source?: SourceDocument;
+  onSelect: (index: number) => void;
+}
+
+export function CitationMarker({ index, source, onSelect }: CitationMarkerProps) {
+  const [open, setOpen] = useState(false);
+
+  // Unknown sources still render as a marker, just without a preview
+  if (!source) {
+    return <sup className="text-xs text-muted-foreground">[{index}]</sup>;
+  }
+
+  const displayName = source.source_name || source.filename;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="mx-0.5 inline-flex h-4 min-w-4 items-center justify-center rounded bg-primary/10 px-1 align-super text-[10px] font-semibold leading-none text-primary no-underline hover:bg-primary/20"
+          onMouseEnter={() => setOpen(true)}
+          onMouseLeave={() => setOpen(false)}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onClick={(e) => {
+            e.preventDefault();
+            setOpen(false);
+            onSelect(index);
+          }}
+          aria-label={`Source ${index}: ${displayName}`}
+        >
+          {index}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        side="top"
+        className="w-80 p-3 pointer-events-none"
+        onOpenAutoFocus={(e) => e.preventDefault()}
+      >
+        <div className="mb-1 flex items-center justify-between gap-2">
+          <p className="truncate text-xs font-medium">
+            [{index}] {displayName}
+          </p>
+          <span className="flex-shrink-0 text-xs text-muted-foreground">
+            {formatScore(source.rerank_score || source.similarity_score)}
+          </span>
+        </div>
+        <p className="line-clamp-6 text-xs leading-relaxed text-muted-foreground">
+          {source.content_preview}
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,330 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { UseQueryResult, useQueries, useQuery } from "@tanstack/react-query";
+import {
+  AppWindow,
+  Bot,
+  Brain,
+  Database,
+  FileText,
+  Keyboard,
+  Loader2,
+  MessageCircle,
+  RefreshCw,
+  SquarePen,
+  TextSearch,
+  Upload,
+  User,
+} from "lucide-react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { HighlightedText } from "@/components/HighlightedText";
+import { ConfirmationDialog } from "@/components/ConfirmationDialog";
+import { KeyCaps, ShortcutsDialog } from "@/components/ShortcutsDialog";
+import { navItems } from "@/components/layout/SideNav";
+import { useChatSearch, useChatSessions } from "@/hooks/sessions";
+import { useApps } from "@/hooks/apps";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { useToast } from "@/hooks/use-toast";
+import { documentApi, indexApi, vectorStoreApi } from "@/lib/api";
+import { MIN_SEARCH_LENGTH, getMessageHref, matchesAllTerms, splitSearchTerms } from "@/lib/chat-search";
+import { PageAction, SHORTCUTS, findShortcut, getActionHref } from "@/lib/shortcuts";
+import { Document } from "@/types/api";
+
+const MAX_PALETTE_RESULTS = 8;
+// Per group, so one long list doesn't push the others out of view
+const MAX_GROUP_RESULTS = 5;
+
+// Module-level so useQueries can keep the combined result stable between renders
+const combineDocumentLists = (results: UseQueryResult<Document[]>[]) =>
+  results.flatMap((result) => result.data || []);
+
+const getBinding = (id: string) => SHORTCUTS.find((shortcut) => shortcut.id === id)?.bindings[0];
+
+/**
+ * Ctrl/Cmd+K palette: jump to any page, knowledge base, App, document or
+ * chat, search message history and run actions. Also owns the other global
+ * keyboard shortcuts.
+ */
+export function CommandPalette() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [showRebuildConfirm, setShowRebuildConfirm] = useState(false);
+  const debouncedQuery = useDebouncedValue(query);
+
+  const { data, isFetching } = useChatSearch(open ? debouncedQuery : "");
+  const trimmed = query.trim();
+  const results = trimmed.length >= MIN_SEARCH_LENGTH ? data?.results ?? [] : [];
+
+  // Everything below is only fetched once the palette has been opened
+  const { data: stores } = useQuery({
+    queryKey: ["vector-stores"],
+    queryFn: vectorStoreApi.getAll,
+    enabled: open,
+  });
+  const { data: appsData } = useApps({ enabled: open });
+  const { data: sessionsData } = useChatSessions({ enabled: open });
+  const documents = useQueries({
+    queries: (stores || []).map((store) => ({
+      queryKey: ["documents", store.store_id],
+      queryFn: () => documentApi.getByStoreId(store.store_id),
+      enabled: open && trimmed.length > 0,
+    })),
+    combine: combineDocumentLists,
+  });
+
+  const terms = splitSearchTerms(trimmed);
+  const matches = (...texts: Array<string | undefined>) =>
+    matchesAllTerms(texts.filter(Boolean).join(" "), terms);
+  const limit = <T,>(items: T[]) => items.slice(0, MAX_GROUP_RESULTS);
+
+  const storeName = (storeId: string) =>
+    stores?.find((store) => store.store_id === storeId)?.name ?? storeId;
+  const pages = navItems.filter((item) => matches("go to", item.label));
+  const matchedStores = limit((stores || []).filter((store) => matches(store.name, store.description)));
+  const apps = limit((appsData?.apps || []).filter((app) => matches(app.name, app.description)));
+  const chats = limit(
+    (sessionsData?.sessions || []).filter((session) => terms.length > 0 && matches(session.title))
+  );
+  const matchedDocuments = limit(
+    documents.filter((doc) => terms.length > 0 && matches(doc.filename, storeName(doc.store_id)))
+  );
+  const uploadTargets = limit(
+    (stores || []).filter((store) => terms.length > 0 && matches("upload", store.name))
+  );
+
+  const actions: Array<{ id: PageAction | "rebuild" | "shortcuts"; label: string; icon: typeof Brain }> = [
+    { id: "new-chat", label: "New chat", icon: SquarePen },
+    { id: "toggle-deep-reasoning", label: "Toggle deep reasoning", icon: Brain },
+    { id: "rebuild", label: "Rebuild all indexes", icon: RefreshCw },
+    { id: "shortcuts", label: "Keyboard shortcuts", icon: Keyboard },
+  ];
+  const matchedActions = actions.filter((action) => matches(action.label));
+
+  useEffect(() => {
+    function handleKeyDown(event: KeyboardEvent) {
+      const shortcut = findShortcut(event);
+      if (!shortcut) return;
+      event.preventDefault();
+      if (shortcut.id === "palette") setOpen((prev) => !prev);
+      else if (shortcut.id === "shortcuts") setShowShortcuts((prev) => !prev);
+      else if (shortcut.id === "new-chat" || shortcut.id === "toggle-deep-reasoning") {
+        setOpen(false);
+        router.push(getActionHref(shortcut.id));
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, [router]);
+
+  const close = () => {
+    setOpen(false);
+    setQuery("");
+  };
+
+  const navigate = (href: string) => {
+    close();
+    router.push(href);
+  };
+
+  const runAction = (id: (typeof actions)[number]["id"]) => {
+    close();
+    if (id === "rebuild") setShowRebuildConfirm(true);
+    else if (id === "shortcuts") setShowShortcuts(true);
+    else router.push(getActionHref(id));
+  };
+
+  const handleRebuildIndexes = async () => {
+    setShowRebuildConfirm(false);
+    try {
+      await indexApi.rebuildAll();
+      toast({
+        title: "✅ Index rebuild successfully started",
+        description: "The rebuild process has been initiated.",
+      });
+    } catch {
+      toast({
+        title: "❌ Failed to start index rebuild",
+        description: "Please try again later.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <CommandDialog
+        open={open}
+        onOpenChange={setOpen}
+        title="Command palette"
+        // Results are matched here and by the server, not by cmdk
+        commandProps={{ shouldFilter: false }}
+      >
+        <CommandInput
+          placeholder="Search or run a command..."
+          value={query}
+          onValueChange={setQuery}
+        />
+        <CommandList>
+          {trimmed.length >= MIN_SEARCH_LENGTH && !isFetching && (
+            <CommandEmpty>No results found.</CommandEmpty>
+          )}
+
+          {matchedActions.length > 0 && (
+            <CommandGroup heading="Actions">
+              {matchedActions.map((action) => {
+                const binding = getBinding(action.id);
+                return (
+                  <CommandItem key={action.id} value={`action-${action.id}`} onSelect={() => runAction(action.id)}>
+                    <action.icon />
+                    {action.label}
+                    {binding && (
+                      <CommandShortcut>
+                        <KeyCaps binding={binding} />
+                      </CommandShortcut>
+                    )}
+                  </CommandItem>
+                );
+              })}
+              {uploadTargets.map((store) => (
+                <CommandItem
+                  key={store.store_id}
+                  value={`upload-${store.store_id}`}
+                  onSelect={() => navigate(getActionHref("upload", store.store_id))}
+                >
+                  <Upload />
+                  Upload documents to {store.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {pages.length > 0 && (
+            <CommandGroup heading="Go to">
+              {pages.map((item) => (
+                <CommandItem key={item.href} value={`page-${item.href}`} onSelect={() => navigate(item.href)}>
+                  <item.icon />
+                  {item.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {terms.length > 0 && matchedStores.length > 0 && (
+            <CommandGroup heading="Knowledge bases">
+              {matchedStores.map((store) => (
+                <CommandItem
+                  key={store.store_id}
+                  value={`store-${store.store_id}`}
+                  onSelect={() => navigate(`/stores/${store.store_id}`)}
+                >
+                  <Database />
+                  {store.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {terms.length > 0 && apps.length > 0 && (
+            <CommandGroup heading="Apps">
+              {apps.map((app) => (
+                <CommandItem key={app._id} value={`app-${app._id}`} onSelect={() => navigate(`/apps/${app._id}`)}>
+                  <AppWindow />
+                  {app.name}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {matchedDocuments.length > 0 && (
+            <CommandGroup heading="Documents">
+              {matchedDocuments.map((doc) => (
+                <CommandItem
+                  key={doc.document_id}
+                  value={`document-${doc.document_id}`}
+                  onSelect={() => navigate(`/stores/${doc.store_id}`)}
+                >
+                  <FileText />
+                  <span className="truncate">{doc.filename}</span>
+                  <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                    {storeName(doc.store_id)}
+                  </span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {chats.length > 0 && (
+            <CommandGroup heading="Chats">
+              {chats.map((session) => (
+                <CommandItem
+                  key={session.sessionId}
+                  value={`chat-${session.sessionId}`}
+                  onSelect={() => navigate(getMessageHref(session.sessionId))}
+                >
+                  <MessageCircle />
+                  <span className="truncate">{session.title}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {results.length > 0 && (
+            <CommandGroup heading="Messages">
+              {results.slice(0, MAX_PALETTE_RESULTS).map((result, index) => (
+                <CommandItem
+                  key={`${result.sessionId}-${result.messageId ?? index}`}
+                  value={`${result.sessionId}-${result.messageId ?? index}`}
+                  onSelect={() => navigate(getMessageHref(result.sessionId, result.messageId))}
+                  className="items-start"
+                >
+                  {result.role === "user" ? <User /> : <Bot />}
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-xs text-muted-foreground">{result.sessionTitle}</p>
+                    <p className="line-clamp-2 text-sm">
+                      <HighlightedText text={result.snippet} query={data?.query ?? trimmed} />
+                    </p>
+                  </div>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          <CommandGroup heading="Search">
+            <CommandItem
+              value="open-search-page"
+              onSelect={() =>
+                navigate(trimmed ? `/search?q=${encodeURIComponent(trimmed)}` : "/search")
+              }
+            >
+              {isFetching ? <Loader2 className="animate-spin" /> : <TextSearch />}
+              {trimmed ? `Search all history for “${trimmed}”` : "Open history search"}
+            </CommandItem>
+          </CommandGroup>
+        </CommandList>
+      </CommandDialog>
+
+      <ShortcutsDialog open={showShortcuts} onOpenChange={setShowShortcuts} />
+
+      <ConfirmationDialog
+        open={showRebuildConfirm}
+        onOpenChange={setShowRebuildConfirm}
+        title="Rebuild All Indexes"
+        description="Are you sure you want to rebuild all indexes? This will re-ingest all source data and can take some time."
+        confirmText="Yes, Rebuild"
+        onConfirm={handleRebuildIndexes}
+      />
+    </>
+  );
+}
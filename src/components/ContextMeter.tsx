@@ -0,0 +1,92 @@
+import { Gauge, Scissors } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { formatTokens } from "@/lib/usage";
+import { ContextEstimate } from "@/lib/context-window";
+
+interface ContextMeterProps {
+  estimate: ContextEstimate;
+  /** Messages left out of the next request to make room */
+  droppedCount: number;
+}
+
+// Share of the window at which the meter turns amber
+const WARNING_RATIO = 0.8;
+
+const compact = (tokens: number) =>
+  tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10_000 ? 0 : 1)}k` : String(tokens);
+
+// How much of the model's context window the next request is expected to use
+export function ContextMeter({ estimate, droppedCount }: ContextMeterProps) {
+  const { history, images, completion, total, limit } = estimate;
+  const ratio = total / limit;
+  const segments = [
+    { label: "History", tokens: history, className: "bg-primary" },
+    { label: "Images", tokens: images, className: "bg-amber-500" },
+    { label: "Reply (max tokens)", tokens: completion, className: "bg-neutral-400" },
+  ];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className={cn(
+            "flex items-center gap-2 rounded px-1 text-xs text-muted-foreground hover:text-foreground",
+            ratio >= 1 ? "text-red-600" : ratio >= WARNING_RATIO && "text-amber-600"
+          )}
+          aria-label="Context window usage"
+        >
+          <Gauge className="h-3 w-3" />
+          <div className="flex h-1.5 w-24 overflow-hidden rounded-full bg-neutral-200">
+            {segments.map((segment) => (
+              <div
+                key={segment.label}
+                className={segment.className}
+                style={{ width: `${Math.min(100, (segment.tokens / limit) * 100)}%` }}
+              />
+            ))}
+          </div>
+          <span className="tabular-nums">
+            {compact(total)} / {compact(limit)}
+          </span>
+          {droppedCount > 0 && <Scissors className="h-3 w-3 text-amber-600" />}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-72 space-y-3 text-sm">
+        <div>
+          <p className="font-medium">Context window</p>
+          <p className="text-xs text-muted-foreground">
+            Estimated from message length; retrieved documents are added by the server.
+          </p>
+        </div>
+        <div className="space-y-1">
+          {segments.map((segment) => (
+            <div key={segment.label} className="flex items-center gap-2 text-xs">
+              <span className={cn("h-2 w-2 rounded-full", segment.className)} />
+              <span>{segment.label}</span>
+              <span className="ml-auto tabular-nums">{formatTokens(segment.tokens)}</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 border-t pt-1 text-xs font-medium">
+            <span>Total</span>
+            <span className="ml-auto tabular-nums">
+              {formatTokens(total)} of {formatTokens(limit)} ({Math.round(ratio * 100)}%)
+            </span>
+          </div>
+        </div>
+        {droppedCount > 0 && (
+          <p className="rounded-md bg-amber-50 px-2 py-1.5 text-xs text-amber-800">
+            {droppedCount} earlier message{droppedCount !== 1 ? "s are" : " is"} left out of the
+            next request to stay within the limit. They are faded in the conversation.
+          </p>
+        )}
+        {ratio >= 1 && (
+          <p className="rounded-md bg-red-50 px-2 py-1.5 text-xs text-red-800">
+            The latest question alone is over the limit. Lower Max Tokens or shorten the message.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { Loader2, ThumbsDown, ThumbsUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateFeedback, useUpdateFeedback } from "@/hooks/feedback";
+import { FeedbackContext, FeedbackRating, FeedbackState } from "@/types/feedback";
+import { cn } from "@/lib/utils";
+
+interface FeedbackControlsProps {
+  /** Called when feedback is submitted, so the snapshot reflects the final answer */
+  getContext: () => FeedbackContext;
+  /** Feedback already saved for this answer */
+  value?: FeedbackState;
+  onChange?: (value: FeedbackState) => void;
+  className?: string;
+}
+
+// Thumbs up/down for an answer; thumbs down asks what went wrong
+export function FeedbackControls({ getContext, value, onChange, className }: FeedbackControlsProps) {
+  const [current, setCurrent] = useState<FeedbackState | undefined>(value);
+  const [commentOpen, setCommentOpen] = useState(false);
+  const [comment, setComment] = useState("");
+  const { toast } = useToast();
+  const createFeedback = useCreateFeedback();
+  const updateFeedback = useUpdateFeedback();
+  const isSaving = createFeedback.isPending || updateFeedback.isPending;
+
+  useEffect(() => {
+    setCurrent(value);
+  }, [value]);
+
+  const save = async (rating: FeedbackRating, comment?: string) => {
+    try {
+      const saved = current
+        ? await updateFeedback.mutateAsync({ id: current.id, data: { rating, comment } })
+        : await createFeedback.mutateAsync({ ...getContext(), rating, comment });
+
+      const next = { id: saved._id, rating };
+      setCurrent(next);
+      onChange?.(next);
+      setCommentOpen(false);
+      setComment("");
+      toast({
+        title: "Thanks for the feedback",
+        description:
+          rating === "down"
+            ? "This answer was flagged for review."
+            : "Glad this answer was helpful.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save feedback",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center gap-1", className)}>
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className={cn("h-7 w-7 p-0", current?.rating === "up" && "text-green-600")}
+        onClick={() => current?.rating !== "up" && save("up")}
+        disabled={isSaving}
+        aria-label="Good answer"
+        aria-pressed={current?.rating === "up"}
+      >
+        <ThumbsUp className={cn("h-3 w-3", current?.rating === "up" && "fill-current")} />
+      </Button>
+
+      <Popover open={commentOpen} onOpenChange={setCommentOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className={cn("h-7 w-7 p-0", current?.rating === "down" && "text-red-600")}
+            disabled={isSaving}
+            aria-label="Bad answer"
+            aria-pressed={current?.rating === "down"}
+          >
+            {isSaving ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <ThumbsDown className={cn("h-3 w-3", current?.rating === "down" && "fill-current")} />
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 space-y-3">
+          <p className="text-sm font-medium">What was wrong with this answer?</p>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Optional: wrong facts, missing sources, outdated document..."
+            className="min-h-[80px] text-sm"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setCommentOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => save("down", comment.trim() || undefined)}
+              disabled={isSaving}
+            >
+              Submit
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import {
   Loader2,
   Settings,
@@ -6,8 +6,17 @@ import {
   Check,
   ChevronsUpDown,
   ArrowUp,
+  History,
+  Square,
+  Slash,
+  AtSign,
+  Database,
+  FileText,
+  X,
+  AppWindow,
+  LucideIcon,
 } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { UseQueryResult, useQueries, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent } from "@/components/ui/card";
@@ -24,35 +33,204 @@ import {
   CommandItem,
   CommandList,
 } from "@/components/ui/command";
-import { vectorStoreApi } from "@/lib/api";
+import { documentApi, vectorStoreApi } from "@/lib/api";
+import { canAddMention, getMentionKey, getMentionLabel } from "@/lib/mentions";
+import {
+  EXPORT_FORMAT_ALIASES,
+  ParsedSlashCommand,
+  matchSlashCommands,
+  parseSlashCommand,
+} from "@/lib/slash-commands";
+import { useApps } from "@/hooks/apps";
+import { cn } from "@/lib/utils";
 import { useKnowledgeBaseStore } from "@/stores/knowledge-base-store";
-import { ImageUploader } from "@/components/ImageUploader";
+import { ImageUploader, ImageUploaderHandle } from "@/components/ImageUploader";
+import { getImageFiles } from "@/lib/image-preprocess";
+import { ChatExportMenu } from "@/components/ChatExportMenu";
+import { ChatExportFormat } from "@/types/session";
+import { ChatMention } from "@/types/chat";
+import { Document, VectorStore } from "@/types/api";
+import { App } from "@/types/app";
+
+interface InputSuggestion {
+  key: string;
+  label: string;
+  description?: string;
+  icon: LucideIcon;
+  /** Input text after picking the suggestion */
+  completion: string;
+  /** Run the command right away instead of waiting for more input */
+  run: boolean;
+  /** Set for @-mention suggestions; picking adds it as a chip */
+  mention?: ChatMention;
+}
+
+const MAX_DOCUMENT_SUGGESTIONS = 8;
+
+// "@partial" being typed at the end of the input
+const MENTION_PATTERN = /(^|\s)@([^\s@]*)$/;
+
+// Autocomplete entries for what has been typed so far
+function getSlashSuggestions(
+  input: string,
+  storeNames: string[],
+  appNames: string[]
+): InputSuggestion[] {
+  const commands = matchSlashCommands(input);
+  if (commands.length > 0) {
+    return commands.map((c) => ({
+      key: c.name,
+      label: c.usage,
+      description: c.description,
+      icon: Slash,
+      completion: c.takesArgs ? `/${c.name} ` : `/${c.name}`,
+      run: !c.takesArgs,
+    }));
+  }
+
+  const match = input.match(/^\/(kb|app|export)\s+(.*)$/i);
+  if (!match) return [];
+  const name = match[1].toLowerCase();
+
+  // /kb takes a comma-separated list; complete only the last entry
+  const args = match[2];
+  const lastComma = name === "kb" ? args.lastIndexOf(",") : -1;
+  const head = lastComma >= 0 ? `${args.slice(0, lastComma + 1)} ` : "";
+  const partial = args.slice(lastComma + 1).trim().toLowerCase();
+
+  const options =
+    name === "kb"
+      ? [...storeNames, ...(head ? [] : ["none"])]
+      : name === "app"
+        ? appNames
+        : Object.keys(EXPORT_FORMAT_ALIASES).filter((f) => f !== "md");
+
+  return options
+    .filter((option) => option.toLowerCase().includes(partial))
+    .map((option) => ({
+      key: option,
+      label: option,
+      icon: Slash,
+      completion: `/${name} ${head}${option}`,
+      run: true,
+    }));
+}
+
+// Module-level so useQueries can keep the combined result stable between renders
+const combineDocumentLists = (results: UseQueryResult<Document[]>[]) =>
+  results.map((result) => result.data || []);
+
+// Stores and documents matching the "@partial" at the end of the input
+function getMentionSuggestions(
+  input: string,
+  stores: VectorStore[],
+  documentsByStore: Array<{ store: VectorStore; documents: Document[] }>,
+  mentions: ChatMention[]
+): InputSuggestion[] {
+  const match = input.match(MENTION_PATTERN);
+  if (!match) return [];
+
+  const partial = match[2].toLowerCase();
+  // Drop the "@partial" text; the mention is shown as a chip instead
+  const completion = input.slice(0, match.index! + match[1].length);
+  const taken = new Set(mentions.map(getMentionKey));
+
+  const storeSuggestions = stores
+    .filter((store) => store.name.toLowerCase().includes(partial))
+    .map((store): ChatMention => ({ type: "store", store_id: store.store_id, name: store.name }))
+    .filter((mention) => !taken.has(getMentionKey(mention)) && canAddMention(mentions, mention))
+    .map((mention) => ({
+      key: getMentionKey(mention),
+      label: getMentionLabel(mention),
+      description: "Knowledge base",
+      icon: Database,
+      completion,
+      run: false,
+      mention,
+    }));
+
+  const documentSuggestions = documentsByStore
+    .flatMap(({ store, documents }) =>
+      documents
+        .filter((doc) => doc.filename.toLowerCase().includes(partial))
+        .map((doc) => ({ store, doc }))
+    )
+    .map(({ store, doc }) => ({
+      mention: {
+        type: "document",
+        store_id: store.store_id,
+        document_id: doc.document_id,
+        filename: doc.filename,
+      } as ChatMention,
+      storeName: store.name,
+    }))
+    .filter(({ mention }) => !taken.has(getMentionKey(mention)) && canAddMention(mentions, mention))
+    .slice(0, MAX_DOCUMENT_SUGGESTIONS)
+    .map(({ mention, storeName }) => ({
+      key: getMentionKey(mention),
+      label: getMentionLabel(mention),
+      description: storeName,
+      icon: FileText,
+      completion,
+      run: false,
+      mention,
+    }));
+
+  return [...storeSuggestions, ...documentSuggestions];
+}
 
 interface FloatingChatInputProps {
   input: string;
   setInput: (value: string) => void;
   onSendMessage: () => void;
+  /** Called instead of sending when the input is a slash command */
+  onCommand: (command: ParsedSlashCommand) => void;
+  onStop: () => void;
   onNewSession: () => void;
+  onOpenHistory: () => void;
   onOpenSettings: () => void;
+  onExport: (format: ChatExportFormat) => void;
+  onImport: (file: File) => void;
+  onShare: () => void;
+  canExport: boolean;
   isStreaming: boolean;
   disabled?: boolean;
   images: Array<{ data: string; mime_type: string }>;
   setImages: (images: Array<{ data: string; mime_type: string }>) => void;
+  /** @-mentions scoping the next message */
+  mentions: ChatMention[];
+  setMentions: (mentions: ChatMention[]) => void;
+  /** App driving the conversation; it also sets the knowledge base */
+  activeAppId: string | null;
+  onSelectApp: (app: App | null) => void;
 }
 
 export function FloatingChatInput({
   input,
   setInput,
   onSendMessage,
+  onCommand,
+  onStop,
   onNewSession,
+  onOpenHistory,
   onOpenSettings,
+  onExport,
+  onImport,
+  onShare,
+  canExport,
   isStreaming,
   disabled = false,
   images,
   setImages,
+  mentions,
+  setMentions,
+  activeAppId,
+  onSelectApp,
 }: FloatingChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const imageUploaderRef = useRef<ImageUploaderHandle>(null);
   const [open, setOpen] = useState(false);
+  const [appPickerOpen, setAppPickerOpen] = useState(false);
   const { selectedStoreIds, toggleStoreSelection } = useKnowledgeBaseStore();
 
   // Fetch available vector stores
@@ -65,6 +243,49 @@ export function FloatingChatInput({
     queryFn: vectorStoreApi.getAll,
   });
 
+  const { data: appsData } = useApps();
+
+  // Documents are only needed once an @-mention is being typed
+  const isMentioning = MENTION_PATTERN.test(input);
+  const documentLists = useQueries({
+    queries: (vectorStores || []).map((store) => ({
+      queryKey: ["documents", store.store_id],
+      queryFn: () => documentApi.getByStoreId(store.store_id),
+      enabled: isMentioning,
+    })),
+    combine: combineDocumentLists,
+  });
+
+  // Slash command and @-mention autocomplete
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+  const [dismissedInput, setDismissedInput] = useState<string | null>(null);
+  const suggestions = useMemo(
+    () =>
+      input.startsWith("/")
+        ? getSlashSuggestions(
+            input,
+            vectorStores?.map((store) => store.name) || [],
+            appsData?.apps.map((app) => app.name) || []
+          )
+        : isMentioning
+          ? getMentionSuggestions(
+              input,
+              vectorStores || [],
+              (vectorStores || []).map((store, index) => ({
+                store,
+                documents: documentLists[index] || [],
+              })),
+              mentions
+            )
+          : [],
+    [input, vectorStores, appsData, mentions, isMentioning, documentLists]
+  );
+  const showSuggestions = suggestions.length > 0 && dismissedInput !== input;
+
+  useEffect(() => {
+    setActiveSuggestion(0);
+  }, [input]);
+
   // Focus textarea after sending a message
   useEffect(() => {
     if (!isStreaming && textareaRef.current) {
@@ -72,15 +293,73 @@ export function FloatingChatInput({
     }
   }, [isStreaming]);
 
+  const submit = (text = input) => {
+    const command = parseSlashCommand(text);
+    if (command) {
+      onCommand(command);
+    } else {
+      onSendMessage();
+    }
+  };
+
+  const applySuggestion = (suggestion: InputSuggestion) => {
+    if (suggestion.mention) {
+      setMentions([...mentions, suggestion.mention]);
+      setInput(suggestion.completion);
+    } else if (suggestion.run) {
+      submit(suggestion.completion);
+    } else {
+      setInput(suggestion.completion);
+    }
+    textareaRef.current?.focus();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (showSuggestions) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveSuggestion((i) => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Tab") {
+        e.preventDefault();
+        const suggestion = suggestions[activeSuggestion];
+        if (suggestion.mention) applySuggestion(suggestion);
+        else setInput(suggestion.completion);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissedInput(input);
+        return;
+      }
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        applySuggestion(suggestions[activeSuggestion]);
+        return;
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
-      onSendMessage();
+      submit();
     }
   };
 
+  // Pasted screenshots go through the same preprocessing as uploads
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = getImageFiles(e.clipboardData.items);
+    if (files.length === 0) return;
+    // Keep the text when copying from documents that also put an image on the clipboard
+    if (!e.clipboardData.getData("text/plain")) e.preventDefault();
+    imageUploaderRef.current?.addFiles(files);
+  };
+
   const isSubmitDisabled = (!input.trim() && images.length === 0) || isStreaming || disabled;
 
+  const activeApp = appsData?.apps.find((app) => app._id === activeAppId);
+
   const selectedStores =
     vectorStores?.filter((store) =>
       selectedStoreIds.includes(store.store_id)
@@ -93,42 +372,115 @@ export function FloatingChatInput({
           <CardContent className="p-2 space-y-3">
             {/* Image Upload Area */}
             <ImageUploader
+              ref={imageUploaderRef}
               onChange={setImages}
               initialImages={images}
               disabled={isStreaming || disabled}
               className="px-2"
             />
             
+            {/* @-mention chips, scoped to the next message */}
+            {mentions.length > 0 && (
+              <div className="flex flex-wrap gap-1 px-2">
+                {mentions.map((mention) => (
+                  <span
+                    key={getMentionKey(mention)}
+                    className="inline-flex max-w-[240px] items-center gap-1 rounded-full border bg-neutral-50 py-0.5 pl-2 pr-1 text-xs"
+                  >
+                    <AtSign className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                    <span className="truncate">{getMentionLabel(mention)}</span>
+                    <button
+                      type="button"
+                      className="rounded-full p-0.5 hover:bg-neutral-200"
+                      onClick={() =>
+                        setMentions(mentions.filter((m) => getMentionKey(m) !== getMentionKey(mention)))
+                      }
+                      aria-label={`Remove ${getMentionLabel(mention)}`}
+                      disabled={isStreaming || disabled}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+
             {/* Input Area */}
-            <div className="flex items-top gap-3 bg-gray-100 p-2 rounded-md">
+            <div className="relative flex items-top gap-3 bg-gray-100 p-2 rounded-md">
+              {/* Slash command autocomplete */}
+              {showSuggestions && (
+                <div
+                  className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto rounded-md border bg-white p-1 shadow-md"
+                  role="listbox"
+                  aria-label="Suggestions"
+                >
+                  {suggestions.map((suggestion, index) => (
+                    <button
+                      key={suggestion.key}
+                      type="button"
+                      role="option"
+                      aria-selected={index === activeSuggestion}
+                      className={cn(
+                        "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+                        index === activeSuggestion ? "bg-neutral-100" : "hover:bg-neutral-50"
+                      )}
+                      onMouseEnter={() => setActiveSuggestion(index)}
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => applySuggestion(suggestion)}
+                    >
+                      <suggestion.icon className="h-3 w-3 flex-shrink-0 text-muted-foreground" />
+                      <span className={cn("truncate text-xs", !suggestion.mention && "font-mono")}>
+                        {suggestion.label}
+                      </span>
+                      {suggestion.description && (
+                        <span className="ml-auto truncate text-xs text-muted-foreground">
+                          {suggestion.description}
+                        </span>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               <div className="flex-1">
                 <Textarea
                   ref={textareaRef}
                   placeholder={
-                    selectedStoreIds.length > 0
-                      ? "Ask a question about your documents..."
-                      : "Ask me anything..."
+                    activeApp
+                      ? `Ask ${activeApp.name}... (type / for commands)`
+                      : selectedStoreIds.length > 0
+                      ? "Ask a question about your documents... (type / for commands)"
+                      : "Ask me anything... (type / for commands)"
                   }
                   value={input}
                   onChange={(e) => setInput(e.target.value)}
                   onKeyDown={handleKeyDown}
+                  onPaste={handlePaste}
                   disabled={isStreaming || disabled}
                   className="resize-none min-h-[60px] max-h-[320px] border-none bg-transparent focus-visible:ring-0 focus-visible:outline-none focus-visible:border-none shadow-none"
                   aria-label="Chat input"
                 />
               </div>
-              <Button
-                onClick={onSendMessage}
-                disabled={isSubmitDisabled}
-                //make it square
-                className="h-10 w-10"
-              >
-                {isStreaming ? (
-                  <Loader2 className="h-4 w-4 animate-spin" />
-                ) : (
+              {isStreaming ? (
+                <Button
+                  onClick={onStop}
+                  variant="outline"
+                  className="h-10 w-10"
+                  aria-label="Stop generating"
+                >
+                  <Square className="h-4 w-4 fill-current" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => submit()}
+                  disabled={isSubmitDisabled}
+                  //make it square
+                  className="h-10 w-10"
+                  aria-label="Send message"
+                >
                   <ArrowUp className="h-4 w-4" />
-                )}
-              </Button>
+                </Button>
+              )}
             </div>
 
             {/* Control Buttons with Knowledge Base Selection */}
@@ -143,6 +495,23 @@ export function FloatingChatInput({
                   <RotateCcw className="h-4 w-4" />
                 </Button>
 
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onOpenHistory}
+                  className="flex items-center gap-2"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+
+                <ChatExportMenu
+                  onExport={onExport}
+                  onImport={onImport}
+                  onShare={onShare}
+                  canExport={canExport}
+                  disabled={isStreaming}
+                />
+
                 {/* Knowledge Base Multiselect Dropdown */}
                 <Popover open={open} onOpenChange={setOpen}>
                   <PopoverTrigger asChild>
@@ -152,6 +521,8 @@ export function FloatingChatInput({
                       role="combobox"
                       aria-expanded={open}
                       className="flex items-center gap-2 min-w-[160px] justify-between"
+                      disabled={!!activeAppId}
+                      title={activeApp ? `Set by ${activeApp.name}` : undefined}
                     >
                       <span className="truncate">
                         {selectedStoreIds.length === 0
@@ -210,6 +581,72 @@ export function FloatingChatInput({
                     </Command>
                   </PopoverContent>
                 </Popover>
+
+                {/* App the conversation is held with */}
+                <Popover open={appPickerOpen} onOpenChange={setAppPickerOpen}>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant={activeAppId ? "secondary" : "outline"}
+                      size="sm"
+                      role="combobox"
+                      aria-expanded={appPickerOpen}
+                      className="flex items-center gap-2 max-w-[200px] justify-between"
+                      disabled={isStreaming}
+                    >
+                      <AppWindow className="h-4 w-4 shrink-0" />
+                      <span className="truncate">
+                        {activeAppId ? activeApp?.name || "App" : "No app"}
+                      </span>
+                      <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-[300px] p-0">
+                    <Command>
+                      <CommandInput placeholder="Search apps..." className="h-9" />
+                      <CommandList>
+                        <CommandEmpty>No apps found.</CommandEmpty>
+                        <CommandGroup>
+                          <CommandItem
+                            value="no app"
+                            onSelect={() => {
+                              onSelectApp(null);
+                              setAppPickerOpen(false);
+                            }}
+                          >
+                            <Check
+                              className={`mr-2 h-4 w-4 ${activeAppId ? "opacity-0" : "opacity-100"}`}
+                            />
+                            No app
+                          </CommandItem>
+                          {appsData?.apps.map((app) => (
+                            <CommandItem
+                              key={app._id}
+                              value={`${app.name} ${app._id}`}
+                              onSelect={() => {
+                                onSelectApp(app);
+                                setAppPickerOpen(false);
+                              }}
+                            >
+                              <Check
+                                className={`mr-2 h-4 w-4 ${
+                                  app._id === activeAppId ? "opacity-100" : "opacity-0"
+                                }`}
+                              />
+                              <div className="min-w-0">
+                                <p className="truncate">{app.name}</p>
+                                {app.description && (
+                                  <p className="truncate text-xs text-muted-foreground">
+                                    {app.description}
+                                  </p>
+                                )}
+                              </div>
+                            </CommandItem>
+                          ))}
+                        </CommandGroup>
+                      </CommandList>
+                    </Command>
+                  </PopoverContent>
+                </Popover>
               </div>
               <Button
                 variant="outline"
@@ -0,0 +1,29 @@
+import { Fragment } from "react";
+import { escapeRegExp, splitSearchTerms } from "@/lib/chat-search";
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+}
+
+// Wraps every occurrence of the query terms in <mark>
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  const terms = splitSearchTerms(query);
+  if (terms.length === 0) return <>{text}</>;
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        // split() with a capture group puts the matches at odd indexes
+        index % 2 === 1 ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,91 @@
+import { ImageIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useImageSettingsStore } from "@/stores/image-settings-store";
+import { ImageOutputFormat, formatBytes } from "@/lib/image-preprocess";
+
+const MB = 1024 * 1024;
+
+// How images are downscaled and re-encoded before they're attached to a question
+export function ImageSettingsCard() {
+  const { options, setOptions, resetOptions } = useImageSettingsStore();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ImageIcon className="h-5 w-5" />
+          Image Uploads
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          Images are resized, rotated upright and re-encoded in the browser before they are sent,
+          which keeps requests and saved chats small. Changes apply to images added afterwards.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <Label>Max Dimension: {options.maxDimension}px</Label>
+            <Slider
+              value={[options.maxDimension]}
+              onValueChange={([value]) => setOptions({ maxDimension: value })}
+              min={512}
+              max={4096}
+              step={128}
+            />
+            <p className="text-xs text-muted-foreground">Longest side after downscaling</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Size Limit: {formatBytes(options.maxBytes)}</Label>
+            <Slider
+              value={[options.maxBytes / MB]}
+              onValueChange={([value]) => setOptions({ maxBytes: value * MB })}
+              min={0.5}
+              max={4}
+              step={0.5}
+            />
+            <p className="text-xs text-muted-foreground">
+              Quality, then size, is reduced until each image fits
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <Select
+              value={options.format}
+              onValueChange={(value) => setOptions({ format: value as ImageOutputFormat })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="image/jpeg">JPEG</SelectItem>
+                <SelectItem value="image/webp">WebP</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Quality: {Math.round(options.quality * 100)}%</Label>
+            <Slider
+              value={[options.quality]}
+              onValueChange={([value]) => setOptions({ quality: value })}
+              min={0.5}
+              max={1}
+              step={0.05}
+            />
+          </div>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={resetOptions}>
+          Reset to defaults
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
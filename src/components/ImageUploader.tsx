@@ -1,9 +1,17 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect, useImperativeHandle, Ref } from "react";
 import { X, Upload, Image as ImageIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import {
+  MAX_IMAGES,
+  base64Bytes,
+  formatBytes,
+  getImageFiles,
+  preprocessImage,
+} from "@/lib/image-preprocess";
+import { useImageSettingsStore } from "@/stores/image-settings-store";
 
 interface ImageUploaderProps {
   /** Called with an array of image objects with base64 data and mime type */
@@ -14,6 +22,12 @@ interface ImageUploaderProps {
   className?: string;
   /** Whether the uploader is disabled */
   disabled?: boolean;
+  /** Lets a parent feed in files from elsewhere, e.g. a paste into its textarea */
+  ref?: Ref<ImageUploaderHandle>;
+}
+
+export interface ImageUploaderHandle {
+  addFiles: (files: File[]) => void;
 }
 
 interface ImagePreview {
@@ -21,103 +35,68 @@ interface ImagePreview {
   dataUrl: string;   // Full data URL for preview
   base64: string;    // Base64 string without prefix for API
   mimeType: string;  // MIME type (e.g., "image/jpeg")
+  bytes: number;           // encoded size sent to the API
+  originalBytes?: number;  // size of the file before preprocessing
 }
 
 export function ImageUploader({ 
   onChange, 
-  initialImages = [], 
+  initialImages,
   className,
-  disabled = false 
+  disabled = false,
+  ref,
 }: ImageUploaderProps) {
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Initialize previews from initial images
   const [previews, setPreviews] = useState<ImagePreview[]>(() =>
-    initialImages.map((img, index) => ({
+    (initialImages ?? []).map((img, index) => ({
       id: `initial-${index}`,
       dataUrl: `data:${img.mime_type};base64,${img.data}`,
       base64: img.data,
       mimeType: img.mime_type,
+      bytes: base64Bytes(img.data),
     }))
   );
 
   const [isProcessing, setIsProcessing] = useState(false);
+  const { options } = useImageSettingsStore();
 
-  // Helper to generate unique IDs
-  const generateId = () => `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-  // Helper to validate image dimensions
-  const validateImageDimensions = (file: File): Promise<boolean> => {
-    return new Promise((resolve) => {
-      const img = new Image();
-      const url = URL.createObjectURL(file);
-      
-      img.onload = () => {
-        URL.revokeObjectURL(url);
-        const megapixels = (img.width * img.height) / 1_000_000;
-        if (megapixels > 33) {
-          toast({
-            title: "Image too large",
-            description: `Image resolution exceeds 33 MP (${megapixels.toFixed(1)} MP). Please use a smaller image.`,
-            variant: "destructive",
-          });
-          resolve(false);
-        } else {
-          resolve(true);
-        }
-      };
-      
-      img.onerror = () => {
-        URL.revokeObjectURL(url);
-        toast({
-          title: "Invalid image",
-          description: "Unable to load the selected image.",
-          variant: "destructive",
-        });
-        resolve(false);
-      };
-      
-      img.src = url;
+  // Follow the parent when it replaces the images itself, e.g. clearing them after a send
+  useEffect(() => {
+    if (!initialImages) return;
+    setPreviews((current) => {
+      const unchanged =
+        current.length === initialImages.length &&
+        current.every((p, i) => p.base64 === initialImages[i].data);
+      if (unchanged) return current;
+      return initialImages.map(
+        (img, index) =>
+          current.find((p) => p.base64 === img.data) ?? {
+            id: `initial-${index}`,
+            dataUrl: `data:${img.mime_type};base64,${img.data}`,
+            base64: img.data,
+            mimeType: img.mime_type,
+            bytes: base64Bytes(img.data),
+          }
+      );
     });
-  };
+  }, [initialImages]);
 
-  // Helper to convert file to base64 with mime type
-  const fileToBase64 = (file: File): Promise<{ base64: string; mimeType: string }> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      reader.onload = () => {
-        const result = reader.result as string;
-        // Extract mime type and base64 data
-        const [header, base64] = result.split(',');
-        const mimeType = header.match(/data:(.*?);base64/)?.[1] || file.type || 'image/jpeg';
-        
-        // Check if base64 size exceeds 4 MB
-        const sizeInBytes = (base64.length * 3) / 4;
-        const sizeInMB = sizeInBytes / (1024 * 1024);
-        
-        if (sizeInMB > 4) {
-          reject(new Error(`Base64 image exceeds 4 MB (${sizeInMB.toFixed(1)} MB)`));
-        } else {
-          resolve({ base64, mimeType });
-        }
-      };
-      
-      reader.onerror = () => reject(new Error("Failed to read file"));
-      reader.readAsDataURL(file);
-    });
-  };
+  // Helper to generate unique IDs
+  const generateId = () => `img-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
-  // Process selected files
-  const processFiles = useCallback(async (files: FileList) => {
-    if (!files.length) return;
+  // Downscale and re-encode selected, dropped or pasted files
+  const processFiles = useCallback(async (files: File[] | FileList) => {
+    const images = getImageFiles(files);
+    if (!images.length) return;
 
     // Check total count limit
-    if (previews.length + files.length > 5) {
+    if (previews.length + images.length > MAX_IMAGES) {
       toast({
         title: "Too many images",
-        description: `You can only upload up to 5 images total. Currently have ${previews.length}, trying to add ${files.length}.`,
+        description: `You can only upload up to ${MAX_IMAGES} images total. Currently have ${previews.length}, trying to add ${images.length}.`,
         variant: "destructive",
       });
       return;
@@ -127,38 +106,23 @@ export function ImageUploader({
     const newPreviews: ImagePreview[] = [];
 
     try {
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-
-        // Check file size
-        if (file.size > 20 * 1024 * 1024) {
-          toast({
-            title: "File too large",
-            description: `${file.name} exceeds 20 MB limit.`,
-            variant: "destructive",
-          });
-          continue;
-        }
-
-        // Check image dimensions
-        const dimensionsValid = await validateImageDimensions(file);
-        if (!dimensionsValid) continue;
-
+      for (const file of images) {
         try {
-          // Convert to base64 with mime type
-          const { base64, mimeType } = await fileToBase64(file);
-          const dataUrl = `data:${mimeType};base64,${base64}`;
-          
+          const image = await preprocessImage(file, options);
           newPreviews.push({
             id: generateId(),
-            dataUrl,
-            base64,
-            mimeType,
+            dataUrl: `data:${image.mime_type};base64,${image.data}`,
+            base64: image.data,
+            mimeType: image.mime_type,
+            bytes: image.bytes,
+            originalBytes: image.originalBytes,
           });
         } catch (error) {
           toast({
             title: "Processing failed",
-            description: error instanceof Error ? error.message : `Failed to process ${file.name}`,
+            description: `${file.name || "Pasted image"}: ${
+              error instanceof Error ? error.message : "Failed to process image"
+            }`,
             variant: "destructive",
           });
         }
@@ -172,7 +136,9 @@ export function ImageUploader({
     } finally {
       setIsProcessing(false);
     }
-  }, [previews, onChange, toast]);
+  }, [previews, onChange, toast, options]);
+
+  useImperativeHandle(ref, () => ({ addFiles: processFiles }), [processFiles]);
 
   // Handle file input change
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -216,7 +182,7 @@ export function ImageUploader({
     }
   };
 
-  const canAddMore = previews.length < 5;
+  const canAddMore = previews.length < MAX_IMAGES;
 
   return (
     <div className={cn("space-y-3", className)}>
@@ -256,7 +222,7 @@ export function ImageUploader({
               {isProcessing ? "Processing images..." : "Drag & drop images here, or click to select"}
             </p>
             <p className="text-xs text-muted-foreground">
-              {5 - previews.length} more image{5 - previews.length !== 1 ? 's' : ''} allowed • Max 20MB each • Max 33MP
+              {MAX_IMAGES - previews.length} more image{MAX_IMAGES - previews.length !== 1 ? 's' : ''} allowed • Resized to {options.maxDimension}px • Max {formatBytes(options.maxBytes)} each
             </p>
           </div>
         </Card>
@@ -274,6 +240,11 @@ export function ImageUploader({
                   className="w-full h-full object-cover"
                 />
               </div>
+              <p className="mt-1 truncate text-center text-[10px] text-muted-foreground tabular-nums">
+                {preview.originalBytes !== undefined && preview.originalBytes !== preview.bytes
+                  ? `${formatBytes(preview.originalBytes)} → ${formatBytes(preview.bytes)}`
+                  : formatBytes(preview.bytes)}
+              </p>
               
               {/* Remove button */}
               <Button
@@ -298,7 +269,7 @@ export function ImageUploader({
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
           <ImageIcon className="w-4 h-4" />
           {previews.length} image{previews.length !== 1 ? 's' : ''} selected
-          {previews.length === 5 && " (maximum reached)"}
+          {previews.length === MAX_IMAGES && " (maximum reached)"}
         </div>
       )}
     </div>
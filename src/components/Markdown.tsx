@@ -0,0 +1,252 @@
+import { memo, useMemo, useState } from "react";
+import ReactMarkdown, { Components, Options } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import { Check, Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CitationMarker } from "@/components/CitationMarker";
+import { MermaidDiagram } from "@/components/MermaidDiagram";
+import { cn } from "@/lib/utils";
+import { parseCitationHref, remarkCitations } from "@/lib/citations";
+import { SourceDocument } from "@/types/api";
+
+type MarkdownSize = "sm" | "base";
+
+interface MarkdownProps {
+  children: string;
+  /** "sm" for chat bubbles, "base" for full-width answers */
+  size?: MarkdownSize;
+  /** Sources that `[n]` markers link to; markers are left as text without them */
+  sources?: SourceDocument[];
+  onCitationSelect?: (index: number) => void;
+}
+
+// Minimal hast shape; only the fields the code block renderer reads
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  properties?: { className?: unknown };
+  children?: HastNode[];
+}
+
+function getNodeText(node: HastNode): string {
+  if (node.type === "text") return node.value ?? "";
+  return (node.children ?? []).map(getNodeText).join("");
+}
+
+function getLanguage(node: HastNode | undefined): string | null {
+  const classes = node?.properties?.className;
+  if (!Array.isArray(classes)) return null;
+  const match = classes.map(String).find((name) => name.startsWith("language-"));
+  return match ? match.slice("language-".length) : null;
+}
+
+// Only links to the web and mail open externally; everything else stays in the app
+function isExternalHref(href: string | undefined) {
+  return !!href && /^(https?:|mailto:)/i.test(href);
+}
+
+const SIZE_CLASSES: Record<MarkdownSize, Record<string, string>> = {
+  sm: {
+    h1: "text-lg font-bold mb-3",
+    h2: "text-base font-semibold mb-2",
+    h3: "text-sm font-semibold mb-2",
+    p: "mb-2 leading-relaxed last:mb-0",
+    ul: "list-disc pl-4 mb-2 space-y-1",
+    ol: "list-decimal pl-4 mb-2 space-y-1",
+    code: "text-xs",
+    block: "mb-3",
+    cell: "px-4 py-2",
+  },
+  base: {
+    h1: "text-xl font-bold mb-4",
+    h2: "text-lg font-semibold mb-3",
+    h3: "text-base font-semibold mb-2",
+    p: "mb-3 leading-relaxed last:mb-0",
+    ul: "list-disc pl-6 mb-3 space-y-1",
+    ol: "list-decimal pl-6 mb-3 space-y-1",
+    code: "text-sm",
+    block: "mb-4",
+    cell: "px-6 py-3",
+  },
+};
+
+interface CodeBlockProps {
+  language: string | null;
+  code: string;
+  className: string;
+  children: React.ReactNode;
+}
+
+// Fenced code with a language label and a copy button
+function CodeBlock({ language, code, className, children }: CodeBlockProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy code:", error);
+    }
+  };
+
+  return (
+    <div className={cn("overflow-hidden rounded-lg border", className)}>
+      <div className="flex items-center justify-between border-b bg-muted/50 px-3 py-1">
+        <span className="font-mono text-xs text-muted-foreground">{language || "text"}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-muted-foreground"
+          onClick={handleCopy}
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="h-3 w-3 mr-1" /> : <Copy className="h-3 w-3 mr-1" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+      </div>
+      <pre className="m-0 overflow-x-auto bg-white">{children}</pre>
+    </div>
+  );
+}
+
+const REHYPE_PLUGINS: Options["rehypePlugins"] = [
+  [rehypeKatex, { strict: false }],
+  // Mermaid sources are rendered as diagrams, so leave them unhighlighted
+  [rehypeHighlight, { plainText: ["mermaid"] }],
+];
+
+function getComponents(
+  size: MarkdownSize,
+  sources: SourceDocument[] | undefined,
+  onCitationSelect: ((index: number) => void) | undefined
+): Components {
+  const classes = SIZE_CLASSES[size];
+
+  return {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    a: ({ href, children, node, ...props }) => {
+      const citation = sources ? parseCitationHref(href) : null;
+      if (citation !== null) {
+        return (
+          <CitationMarker
+            index={citation}
+            source={sources?.[citation - 1]}
+            onSelect={onCitationSelect ?? (() => {})}
+          />
+        );
+      }
+      return isExternalHref(href) ? (
+        <a href={href} target="_blank" rel="noopener noreferrer nofollow" {...props}>
+          {children}
+        </a>
+      ) : (
+        <a href={href} {...props}>
+          {children}
+        </a>
+      );
+    },
+    h1: ({ children }) => <h1 className={classes.h1}>{children}</h1>,
+    h2: ({ children }) => <h2 className={classes.h2}>{children}</h2>,
+    h3: ({ children }) => <h3 className={classes.h3}>{children}</h3>,
+    p: ({ children }) => <p className={classes.p}>{children}</p>,
+    ul: ({ children }) => <ul className={classes.ul}>{children}</ul>,
+    ol: ({ children }) => <ol className={classes.ol}>{children}</ol>,
+    li: ({ children }) => <li className="leading-relaxed">{children}</li>,
+    // Block code is laid out by `pre`; a class means rehype-highlight or a fence language set it
+    code: ({ children, className }) =>
+      className ? (
+        <code className={cn(className, "block p-3 font-mono", classes.code)}>{children}</code>
+      ) : (
+        <code className={cn("px-1.5 py-0.5 rounded font-mono bg-muted", classes.code)}>{children}</code>
+      ),
+    pre: ({ node, children }) => {
+      const codeNode = (node as HastNode | undefined)?.children?.find(
+        (child) => child.type === "element" && child.tagName === "code"
+      );
+      const language = getLanguage(codeNode);
+      const code = codeNode ? getNodeText(codeNode).replace(/\n$/, "") : "";
+
+      const block = (
+        <CodeBlock language={language} code={code} className={classes.block}>
+          {/* Unlabelled fences get the block styling through an explicit class */}
+          {codeNode && !language ? (
+            <code className={cn("block p-3 font-mono", classes.code)}>{code}</code>
+          ) : (
+            children
+          )}
+        </CodeBlock>
+      );
+
+      return language === "mermaid" ? <MermaidDiagram chart={code} fallback={block} /> : block;
+    },
+    blockquote: ({ children }) => (
+      <blockquote className={cn("border-l-4 pl-4 italic border-muted-foreground/40", classes.block)}>
+        {children}
+      </blockquote>
+    ),
+    table: ({ children }) => (
+      <div className="my-4 overflow-hidden rounded-lg border">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-border">{children}</table>
+        </div>
+      </div>
+    ),
+    thead: ({ children }) => <thead className="bg-muted/50">{children}</thead>,
+    tbody: ({ children }) => <tbody className="divide-y divide-border">{children}</tbody>,
+    tr: ({ children }) => <tr className="hover:bg-muted/20 transition-colors">{children}</tr>,
+    th: ({ children }) => (
+      <th className={cn("text-left text-xs font-semibold uppercase tracking-wider", classes.cell)}>
+        {children}
+      </th>
+    ),
+    td: ({ children }) => (
+      <td className={cn("text-sm", classes.cell)}>
+        <div className="max-w-xs break-words">{children}</div>
+      </td>
+    ),
+  };
+}
+
+/**
+ * Markdown renderer shared by chat, the query playground and app runs: GFM,
+ * inline citations, highlighted code, KaTeX math and Mermaid diagrams.
+ *
+ * Memoized, so a finished message is not re-parsed while another one streams;
+ * pass stable `sources` and `onCitationSelect` references to keep it that way.
+ */
+export const Markdown = memo(function Markdown({
+  children,
+  size = "base",
+  sources,
+  onCitationSelect,
+}: MarkdownProps) {
+  const citationCount = sources?.length;
+  const remarkPlugins = useMemo<Options["remarkPlugins"]>(
+    () =>
+      citationCount !== undefined
+        ? [remarkGfm, remarkMath, [remarkCitations, { count: citationCount }]]
+        : [remarkGfm, remarkMath],
+    [citationCount]
+  );
+  // New renderer identities would remount every node, resetting code blocks and diagrams
+  const components = useMemo(
+    () => getComponents(size, sources, onCitationSelect),
+    [size, sources, onCitationSelect]
+  );
+
+  return (
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={REHYPE_PLUGINS}
+      components={components}
+    >
+      {children}
+    </ReactMarkdown>
+  );
+});
@@ -0,0 +1,65 @@
+import { useEffect, useId, useState } from "react";
+import { Loader2 } from "lucide-react";
+
+interface MermaidDiagramProps {
+  chart: string;
+  /** Rendered instead of the diagram while it can't be drawn, e.g. mid-stream */
+  fallback: React.ReactNode;
+}
+
+// Mermaid is large, so it is only loaded once a diagram is on screen
+export function MermaidDiagram({ chart, fallback }: MermaidDiagramProps) {
+  const id = `mermaid-${useId().replace(/:/g, "")}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const { default: mermaid } = await import("mermaid");
+        // "strict" sanitizes labels and disables click handlers in the diagram
+        mermaid.initialize({ startOnLoad: false, securityLevel: "strict", theme: "neutral" });
+
+        // Incomplete diagrams are common while an answer streams; keep the source visible
+        if (!(await mermaid.parse(chart, { suppressErrors: true }))) {
+          if (!cancelled) setFailed(true);
+          return;
+        }
+        const result = await mermaid.render(id, chart);
+        if (!cancelled) {
+          setSvg(result.svg);
+          setFailed(false);
+        }
+      } catch (error) {
+        console.error("Failed to render diagram:", error);
+        // Mermaid leaves its scratch element behind when rendering throws
+        document.getElementById(`d${id}`)?.remove();
+        if (!cancelled) setFailed(true);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [chart, id]);
+
+  if (failed) return <>{fallback}</>;
+
+  if (!svg) {
+    return (
+      <div className="mb-3 flex items-center gap-2 rounded-lg border p-4 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Rendering diagram…
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="mb-3 flex justify-center overflow-x-auto rounded-lg border bg-white p-4"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+}
@@ -1,31 +1,176 @@
-import { useState } from "react";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
-import { ChevronDown, ChevronUp, FileText, User } from "lucide-react";
+import { memo, useCallback, useState } from "react";
+import {
+  AlertCircle,
+  AtSign,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  ChevronUp,
+  FileText,
+  Pencil,
+  RefreshCw,
+  RotateCcw,
+  Scissors,
+  User,
+} from "lucide-react";
 import { ChatMessage } from "@/types/chat";
+import { FeedbackContext, FeedbackState } from "@/types/feedback";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
 import { SourceDocumentCard } from "@/components/SourceDocumentCard";
+import { Markdown } from "@/components/Markdown";
+import { ThinkingPanel } from "@/components/ThinkingPanel";
+import { FeedbackControls } from "@/components/FeedbackControls";
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import { cn } from "@/lib/utils";
+import { getMessageText } from "@/lib/chat-utils";
+import { formatScore } from "@/lib/api";
+import { formatCost, formatTokens } from "@/lib/usage";
+import { getMentionKey, getMentionLabel } from "@/lib/mentions";
+import { useCitationFocus } from "@/hooks/use-citations";
 
 interface MessageBubbleProps {
   message: ChatMessage;
+  // Callbacks take the message id so the list can pass the same functions to every
+  // bubble; with memo, only bubbles whose props changed re-render while a reply streams
+  /** Re-run the reply; only passed for the last assistant message */
+  onRegenerate?: (messageId: string) => void;
+  /** Resend an edited user message as a new branch */
+  onEdit?: (messageId: string, text: string) => void;
+  /** Zero-based position among sibling branches; the navigator shows when there are several */
+  branchIndex?: number;
+  branchCount?: number;
+  onSwitchBranch?: (messageId: string, offset: number) => void;
+  branchDisabled?: boolean;
+  /** Briefly set when the message was opened from a search result */
+  highlighted?: boolean;
+  /** Thumbs up/down; only passed for a finished assistant reply */
+  getFeedbackContext?: (message: ChatMessage) => FeedbackContext;
+  onFeedbackChange?: (messageId: string, feedback: FeedbackState) => void;
+  /** Left out of the next request because the context window is full */
+  excluded?: boolean;
 }
 
-export function MessageBubble({ message }: MessageBubbleProps) {
+interface BranchNavigatorProps {
+  index: number;
+  count: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  disabled?: boolean;
+}
+
+// "< 2/3 >" control for moving between sibling branches
+function BranchNavigator({ index, count, onPrevious, onNext, disabled }: BranchNavigatorProps) {
+  return (
+    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        onClick={onPrevious}
+        disabled={disabled || index === 0}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1}/{count}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 w-6 p-0"
+        onClick={onNext}
+        disabled={disabled || index === count - 1}
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+export const MessageBubble = memo(function MessageBubble({
+  message,
+  onRegenerate,
+  onEdit,
+  branchIndex = 0,
+  branchCount = 1,
+  onSwitchBranch,
+  branchDisabled,
+  highlighted,
+  getFeedbackContext,
+  onFeedbackChange,
+  excluded,
+}: MessageBubbleProps) {
   const [showSources, setShowSources] = useState(false);
+  const [sourcesPanel, setSourcesPanel] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const startEditing = () => {
+    setDraft(getMessageText(message));
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    setIsEditing(false);
+    if (message.id) onEdit?.(message.id, draft);
+  };
   
   const isUser = message.role === "user";
   const isSystem = message.role === "system";
+  const isFailed = message.status === "error";
+  const { highlighted: highlightedSource, focusSource, registerSource } = useCitationFocus();
+
+  const branch =
+    message.id && onSwitchBranch && branchCount > 1 ? (
+      <BranchNavigator
+        index={branchIndex}
+        count={branchCount}
+        onPrevious={() => onSwitchBranch(message.id!, -1)}
+        onNext={() => onSwitchBranch(message.id!, 1)}
+        disabled={branchDisabled}
+      />
+    ) : null;
+  const feedback =
+    message.id && getFeedbackContext ? (
+      <FeedbackControls
+        value={message.feedback}
+        getContext={() => getFeedbackContext(message)}
+        onChange={(next) => onFeedbackChange?.(message.id!, next)}
+        className="ml-auto"
+      />
+    ) : null;
+
+  // Open the collapsed source list before scrolling to the cited card
+  const handleCitationSelect = useCallback(
+    (index: number) => {
+      setShowSources(true);
+      setSourcesPanel("sources");
+      focusSource(index);
+    },
+    [focusSource]
+  );
 
   return (
     <div
-      className="flex w-full justify-center py-6"
+      id={message.id ? `message-${message.id}` : undefined}
+      className={cn(
+        "flex w-full justify-center py-6 transition-colors duration-700",
+        highlighted && "bg-yellow-50"
+      )}
       {...(message.role === "assistant" && { "aria-live": "polite" as const })}
     >
       {/* Message content - centered with fixed 50% width */}
-      <div className="flex w-[55%] flex-col gap-2">
+      <div className={cn("flex w-[55%] flex-col gap-2", excluded && "opacity-50")}>
+        {excluded && (
+          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+            <Scissors className="h-3 w-3" />
+            Left out of the context window
+          </div>
+        )}
         {/* Message content */}
         {isUser ? (
           // Human message - no background/card with user avatar
@@ -36,6 +181,32 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                 <User className="h-4 w-4 text-primary-foreground" />
               </div>
             </div>
+            {isEditing ? (
+              <div className="flex-1 space-y-2">
+                <Textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    }
+                    if (e.key === "Escape") setIsEditing(false);
+                  }}
+                  className="min-h-[80px] bg-white"
+                  autoFocus
+                  aria-label="Edit message"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
+                  <Button size="sm" onClick={submitEdit}>
+                    Save & Submit
+                  </Button>
+                </div>
+              </div>
+            ) : (
             <div className="prose prose-sm max-w-none text-left flex-1">
               {/* Handle multimodal content */}
               {Array.isArray(message.content) ? (
@@ -43,39 +214,7 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                   {message.content.map((item, index) => (
                     <div key={index}>
                       {item.type === 'text' && item.text && (
-                        <ReactMarkdown
-                          remarkPlugins={[remarkGfm]}
-                          components={{
-                            h1: ({ children }) => <h1 className="text-lg font-bold mb-3">{children}</h1>,
-                            h2: ({ children }) => <h2 className="text-base font-semibold mb-2">{children}</h2>,
-                            h3: ({ children }) => <h3 className="text-sm font-semibold mb-2">{children}</h3>,
-                            p: ({ children }) => <p className="mb-2 leading-relaxed last:mb-0">{children}</p>,
-                            ul: ({ children }) => <ul className="list-disc pl-4 mb-2 space-y-1">{children}</ul>,
-                            ol: ({ children }) => <ol className="list-decimal pl-4 mb-2 space-y-1">{children}</ol>,
-                            // eslint-disable-next-line jsx-a11y/no-redundant-roles
-                            li: ({ children }) => <li className="leading-relaxed">{children}</li>,
-                            code: ({ children, className }) => {
-                              const isInline = !className;
-                              return isInline ? (
-                                <code className="px-1.5 py-0.5 rounded text-xs font-mono bg-muted">
-                                  {children}
-                                </code>
-                              ) : (
-                                <code className="block p-3 rounded-lg text-xs font-mono whitespace-pre-wrap overflow-x-auto bg-muted">
-                                  {children}
-                                </code>
-                              );
-                            },
-                            pre: ({ children }) => <div className="mb-3">{children}</div>,
-                            blockquote: ({ children }) => (
-                              <blockquote className="border-l-4 pl-4 italic mb-3 border-muted-foreground/40">
-                                {children}
-                              </blockquote>
-                            ),
-                          }}
-                        >
-                          {item.text}
-                        </ReactMarkdown>
+                        <Markdown size="sm">{item.text}</Markdown>
                       )}
                       {item.type === 'image' && item.image && (
                         <div className="my-3">
@@ -91,77 +230,10 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                 </div>
               ) : (
                 /* Handle text-only content */
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    h1: ({ children }) => <h1 className="text-lg font-bold mb-3">{children}</h1>,
-                    h2: ({ children }) => <h2 className="text-base font-semibold mb-2">{children}</h2>,
-                    h3: ({ children }) => <h3 className="text-sm font-semibold mb-2">{children}</h3>,
-                    p: ({ children }) => <p className="mb-2 leading-relaxed last:mb-0">{children}</p>,
-                    ul: ({ children }) => <ul className="list-disc pl-4 mb-2 space-y-1">{children}</ul>,
-                    ol: ({ children }) => <ol className="list-decimal pl-4 mb-2 space-y-1">{children}</ol>,
-                    // eslint-disable-next-line jsx-a11y/no-redundant-roles
-                    li: ({ children }) => <li className="leading-relaxed">{children}</li>,
-                    code: ({ children, className }) => {
-                      const isInline = !className;
-                      return isInline ? (
-                        <code className="px-1.5 py-0.5 rounded text-xs font-mono bg-muted">
-                          {children}
-                        </code>
-                      ) : (
-                        <code className="block p-3 rounded-lg text-xs font-mono whitespace-pre-wrap overflow-x-auto bg-muted">
-                          {children}
-                        </code>
-                      );
-                    },
-                    pre: ({ children }) => <div className="mb-3">{children}</div>,
-                    blockquote: ({ children }) => (
-                      <blockquote className="border-l-4 pl-4 italic mb-3 border-muted-foreground/40">
-                        {children}
-                      </blockquote>
-                    ),
-                    table: ({ children }) => (
-                      <div className="my-4 overflow-hidden rounded-lg border">
-                        <div className="overflow-x-auto">
-                          <table className="min-w-full divide-y divide-border">
-                            {children}
-                          </table>
-                        </div>
-                      </div>
-                    ),
-                    thead: ({ children }) => (
-                      <thead className="bg-muted/50">
-                        {children}
-                      </thead>
-                    ),
-                    tbody: ({ children }) => (
-                      <tbody className="divide-y divide-border">
-                        {children}
-                      </tbody>
-                    ),
-                    tr: ({ children }) => (
-                      <tr className="hover:bg-muted/20 transition-colors">
-                        {children}
-                      </tr>
-                    ),
-                    th: ({ children }) => (
-                      <th className="px-4 py-2 text-left text-xs font-semibold uppercase tracking-wider">
-                        {children}
-                      </th>
-                    ),
-                    td: ({ children }) => (
-                      <td className="px-4 py-2 text-sm">
-                        <div className="max-w-xs break-words">
-                          {children}
-                        </div>
-                      </td>
-                    ),
-                  }}
-                >
-                  {message.content}
-                </ReactMarkdown>
+                <Markdown size="sm">{message.content}</Markdown>
               )}
             </div>
+            )}
           </div>
         ) : (
           // Bot message - white background with card
@@ -177,83 +249,112 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                 </div>
               )}
               
+              {/* Deep-reasoning trace, streamed ahead of the answer */}
+              {message.reasoning && (
+                <ThinkingPanel
+                  reasoning={message.reasoning}
+                  isThinking={message.status === "streaming" && message.reasoning_ms === undefined}
+                  durationMs={message.reasoning_ms}
+                />
+              )}
+
               {/* Message content */}
               <div className="prose prose-sm max-w-none text-left dark:prose-invert">
                 {/* Assistant messages are always text-only, so handle as string */}
-                <ReactMarkdown
-                  remarkPlugins={[remarkGfm]}
-                  components={{
-                    h1: ({ children }) => <h1 className="text-lg font-bold mb-3">{children}</h1>,
-                    h2: ({ children }) => <h2 className="text-base font-semibold mb-2">{children}</h2>,
-                    h3: ({ children }) => <h3 className="text-sm font-semibold mb-2">{children}</h3>,
-                    p: ({ children }) => <p className="mb-2 leading-relaxed last:mb-0">{children}</p>,
-                    ul: ({ children }) => <ul className="list-disc pl-4 mb-2 space-y-1">{children}</ul>,
-                    ol: ({ children }) => <ol className="list-decimal pl-4 mb-2 space-y-1">{children}</ol>,
-                    // eslint-disable-next-line jsx-a11y/no-redundant-roles
-                    li: ({ children }) => <li className="leading-relaxed">{children}</li>,
-                    code: ({ children, className }) => {
-                      const isInline = !className;
-                      return isInline ? (
-                        <code className="px-1.5 py-0.5 rounded text-xs font-mono bg-muted">
-                          {children}
-                        </code>
-                      ) : (
-                        <code className="block p-3 rounded-lg text-xs font-mono whitespace-pre-wrap overflow-x-auto bg-muted">
-                          {children}
-                        </code>
-                      );
-                    },
-                    pre: ({ children }) => <div className="mb-3">{children}</div>,
-                    blockquote: ({ children }) => (
-                      <blockquote className="border-l-4 pl-4 italic mb-3 border-muted-foreground/40">
-                        {children}
-                      </blockquote>
-                    ),
-                    table: ({ children }) => (
-                      <div className="my-4 overflow-hidden rounded-lg border">
-                        <div className="overflow-x-auto">
-                          <table className="min-w-full divide-y divide-border">
-                            {children}
-                          </table>
-                        </div>
-                      </div>
-                    ),
-                    thead: ({ children }) => (
-                      <thead className="bg-muted/50">
-                        {children}
-                      </thead>
-                    ),
-                    tbody: ({ children }) => (
-                      <tbody className="divide-y divide-border">
-                        {children}
-                      </tbody>
-                    ),
-                    tr: ({ children }) => (
-                      <tr className="hover:bg-muted/20 transition-colors">
-                        {children}
-                      </tr>
-                    ),
-                    th: ({ children }) => (
-                      <th className="px-4 py-2 text-left text-xs font-semibold uppercase tracking-wider">
-                        {children}
-                      </th>
-                    ),
-                    td: ({ children }) => (
-                      <td className="px-4 py-2 text-sm">
-                        <div className="max-w-xs break-words">
-                          {children}
-                        </div>
-                      </td>
-                    ),
-                  }}
+                <Markdown
+                  size="sm"
+                  sources={message.sources}
+                  onCitationSelect={handleCitationSelect}
                 >
                   {typeof message.content === 'string' ? message.content : ''}
-                </ReactMarkdown>
+                </Markdown>
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Knowledge bases and documents this question was scoped to */}
+        {isUser && !isEditing && message.mentions && message.mentions.length > 0 && (
+          <div className="flex flex-wrap justify-end gap-1 px-1">
+            {message.mentions.map((mention) => (
+              <span
+                key={getMentionKey(mention)}
+                className="inline-flex max-w-[240px] items-center gap-1 rounded-full border bg-white px-2 py-0.5 text-xs text-muted-foreground"
+              >
+                <AtSign className="h-3 w-3 flex-shrink-0" />
+                <span className="truncate">{getMentionLabel(mention)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+
+        {/* Edit and branch controls - user messages only */}
+        {isUser && !isEditing && (onEdit || branch) && (
+          <div className="flex items-center justify-end gap-2 px-1">
+            {branch}
+            {onEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={startEditing}
+                className="h-auto p-2 text-xs hover:bg-muted/50"
+              >
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+            )}
+          </div>
+        )}
+
+        {/* Reply status and actions - assistant messages only */}
+        {message.role === "assistant" && (isFailed || message.status === "stopped" || message.usage || message.confidence != null || onRegenerate || branch || feedback) && (
+          <div className="flex items-center justify-between gap-2 px-1">
+            <div className="text-xs">
+              {isFailed && (
+                <span className="flex items-center gap-1 text-red-600">
+                  <AlertCircle className="h-3 w-3" />
+                  {message.error || "The response was interrupted."}
+                </span>
+              )}
+              {message.status === "stopped" && (
+                <span className="text-muted-foreground italic">Generation stopped</span>
+              )}
+              {message.usage && !isFailed && message.status !== "stopped" && (
+                <span className="text-muted-foreground tabular-nums">
+                  {formatTokens(message.usage.total_tokens)} tokens · {formatCost(message.usage.cost_usd)}
+                </span>
+              )}
+              {message.confidence != null && !isFailed && (
+                <span className="ml-2 text-muted-foreground tabular-nums">
+                  Confidence {formatScore(message.confidence)}
+                </span>
+              )}
+            </div>
+            {branch}
+            {feedback}
+            {onRegenerate && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => message.id && onRegenerate(message.id)}
+                className="h-auto p-2 text-xs hover:bg-muted/50"
+              >
+                {isFailed ? (
+                  <>
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Retry
+                  </>
+                ) : (
+                  <>
+                    <RefreshCw className="h-3 w-3 mr-1" />
+                    Regenerate
+                  </>
+                )}
+              </Button>
+            )}
+          </div>
+        )}
+
         {/* Sources section - only show for assistant messages */}
         {!isUser && message.sources && message.sources.length > 0 && (
           <div className="w-full space-y-2">
@@ -278,14 +379,26 @@ export function MessageBubble({ message }: MessageBubbleProps) {
             {/* Sources content */}
             {showSources && (
               <div className="w-full">
-                <Accordion type="single" collapsible className="w-full">
+                <Accordion
+                  type="single"
+                  collapsible
+                  className="w-full"
+                  value={sourcesPanel}
+                  onValueChange={setSourcesPanel}
+                >
                   <AccordionItem value="sources" className="border rounded-lg">
                     <AccordionTrigger className="px-4 py-2 text-sm">
                       Sources ({message.sources.length})
                     </AccordionTrigger>
                     <AccordionContent className="px-4 pb-4 space-y-3">
                       {message.sources.map((doc, index) => (
-                        <SourceDocumentCard key={index} document={doc} />
+                        <div key={index} ref={registerSource(index + 1)}>
+                          <SourceDocumentCard
+                            document={doc}
+                            index={index + 1}
+                            highlighted={highlightedSource === index + 1}
+                          />
+                        </div>
                       ))}
                     </AccordionContent>
                   </AccordionItem>
@@ -297,4 +410,4 @@ export function MessageBubble({ message }: MessageBubbleProps) {
       </div>
     </div>
   );
-}
+});
@@ -11,7 +11,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { SettingsProfileMenu } from "@/components/SettingsProfileMenu";
+import { PromptPicker } from "@/components/PromptPicker";
 import { vectorStoreApi } from "@/lib/api";
+import { applyProfileSettings } from "@/lib/settings-profiles";
 import { ChatSettings } from "@/types/chat";
 import { MAX_COMPLETION_TOKENS, MIN_COMPLETION_TOKENS, TOKEN_STEP_SIZE } from "@/constants/tokens";
 
@@ -156,9 +159,21 @@ export function PlaygroundSettings({
 
   const SettingsContent = () => (
     <div className="space-y-6">
+      {/* Saved Profiles */}
+      <SettingsProfileMenu
+        settings={settings}
+        onApply={(profile) => onChange(applyProfileSettings(settings, profile))}
+      />
+
       {/* System Prompt */}
       <div className="space-y-2">
-        <Label htmlFor="system-prompt">System Prompt (Optional)</Label>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="system-prompt">System Prompt (Optional)</Label>
+          <PromptPicker
+            onInsert={(content) => updateSetting("system_prompt", content)}
+            currentContent={settings.system_prompt}
+          />
+        </div>
         <Textarea
           id="system-prompt"
           placeholder="Custom instructions for the AI assistant..."
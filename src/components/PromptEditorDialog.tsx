@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useCreatePrompt, useUpdatePrompt } from "@/hooks/prompts";
+import { extractVariables, parseTagInput } from "@/lib/prompts";
+import { Prompt } from "@/types/prompt";
+
+interface PromptEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Prompt to edit; omitted when creating */
+  prompt?: Prompt | null;
+  /** Content to start a new prompt from, e.g. the system prompt being typed */
+  initialContent?: string;
+}
+
+export function PromptEditorDialog({ open, onOpenChange, prompt, initialContent = "" }: PromptEditorDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [tags, setTags] = useState("");
+  const [content, setContent] = useState("");
+  const { toast } = useToast();
+  const createPrompt = useCreatePrompt();
+  const updatePrompt = useUpdatePrompt();
+  const isSaving = createPrompt.isPending || updatePrompt.isPending;
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(prompt?.name ?? "");
+    setDescription(prompt?.description ?? "");
+    setTags(prompt?.tags.join(", ") ?? "");
+    setContent(prompt?.content ?? initialContent);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, prompt]);
+
+  const variables = extractVariables(content);
+
+  const handleSave = async () => {
+    const data = {
+      name: name.trim(),
+      description: description.trim(),
+      content,
+      tags: parseTagInput(tags),
+    };
+    try {
+      if (prompt) {
+        await updatePrompt.mutateAsync({ id: prompt._id, data });
+      } else {
+        await createPrompt.mutateAsync(data);
+      }
+      toast({
+        title: prompt ? "Prompt updated" : "Prompt saved",
+        description: `"${data.name}" is available in the prompt library.`,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save prompt",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{prompt ? "Edit Prompt" : "Save Prompt"}</DialogTitle>
+          <DialogDescription>
+            Use {"{{variable}}"} placeholders for parts that change; they are filled in before the
+            prompt is inserted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="prompt-name">Name *</Label>
+              <Input
+                id="prompt-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Code reviewer"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-tags">Tags</Label>
+              <Input
+                id="prompt-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="code, review"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prompt-description">Description</Label>
+            <Input
+              id="prompt-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What this prompt is good for"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prompt-content">Prompt *</Label>
+            <Textarea
+              id="prompt-content"
+              value={content}
+              onChange={(e) => setContent(e.target.value)}
+              placeholder="You are a {{role}}. Answer using the provided context..."
+              className="min-h-[200px] font-mono text-sm"
+            />
+            {variables.length > 0 && (
+              <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                Variables:
+                {variables.map((variable) => (
+                  <Badge key={variable} variant="secondary" className="font-mono">
+                    {variable}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {prompt && content !== prompt.content && (
+              <p className="text-xs text-muted-foreground">
+                The current version is kept in the history when you save.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving || !name.trim() || !content.trim()}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {prompt ? "Save Changes" : "Save Prompt"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
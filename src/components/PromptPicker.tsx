@@ -0,0 +1,172 @@
+import { useState } from "react";
+import { useRouter } from "next/router";
+import { BookText, Library, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { PromptEditorDialog } from "@/components/PromptEditorDialog";
+import { usePrompts } from "@/hooks/prompts";
+import { extractVariables, fillVariables } from "@/lib/prompts";
+import { Prompt } from "@/types/prompt";
+
+interface PromptPickerProps {
+  /** Receives the chosen prompt with its variables filled in */
+  onInsert: (content: string) => void;
+  /** The prompt currently typed, offered for saving to the library */
+  currentContent?: string;
+  disabled?: boolean;
+}
+
+// Insert a saved prompt into a system prompt field, or save the current one
+export function PromptPicker({ onInsert, currentContent, disabled }: PromptPickerProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [pending, setPending] = useState<Prompt | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [showSave, setShowSave] = useState(false);
+  const { data, isLoading } = usePrompts();
+
+  const variables = pending ? extractVariables(pending.content) : [];
+
+  const handleSelect = (prompt: Prompt) => {
+    setOpen(false);
+    if (extractVariables(prompt.content).length === 0) {
+      onInsert(prompt.content);
+      return;
+    }
+    setValues({});
+    setPending(prompt);
+  };
+
+  const handleFill = () => {
+    if (!pending) return;
+    onInsert(fillVariables(pending.content, values));
+    setPending(null);
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs" disabled={disabled}>
+            <BookText className="h-3 w-3 mr-1" />
+            Prompts
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-80 p-0">
+          <Command>
+            <CommandInput placeholder="Search prompts..." />
+            <CommandList>
+              <CommandEmpty>{isLoading ? "Loading prompts..." : "No saved prompts found."}</CommandEmpty>
+              {data && data.prompts.length > 0 && (
+                <CommandGroup heading="Saved prompts">
+                  {data.prompts.map((prompt) => (
+                    <CommandItem
+                      key={prompt._id}
+                      value={`${prompt.name} ${prompt.tags.join(" ")} ${prompt._id}`}
+                      onSelect={() => handleSelect(prompt)}
+                      className="flex-col items-start gap-0.5"
+                    >
+                      <span className="font-medium">{prompt.name}</span>
+                      {(prompt.description || prompt.tags.length > 0) && (
+                        <span className="text-xs text-muted-foreground line-clamp-1">
+                          {prompt.tags.map((tag) => `#${tag}`).join(" ")}
+                          {prompt.tags.length > 0 && prompt.description && " · "}
+                          {prompt.description}
+                        </span>
+                      )}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              <CommandSeparator />
+              <CommandGroup>
+                {currentContent?.trim() && (
+                  <CommandItem
+                    value="save current prompt"
+                    onSelect={() => {
+                      setOpen(false);
+                      setShowSave(true);
+                    }}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save current prompt…
+                  </CommandItem>
+                )}
+                <CommandItem
+                  value="manage prompt library"
+                  onSelect={() => {
+                    setOpen(false);
+                    router.push("/prompts");
+                  }}
+                >
+                  <Library className="h-4 w-4 mr-2" />
+                  Manage prompt library
+                </CommandItem>
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+
+      {/* Variable fill-in form */}
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{pending?.name}</DialogTitle>
+            <DialogDescription>Fill in the prompt&apos;s variables before inserting it.</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              // Portalled, but React still bubbles submit to a surrounding form such as AppFormModal
+              e.preventDefault();
+              e.stopPropagation();
+              handleFill();
+            }}
+          >
+            {variables.map((variable, index) => (
+              <div key={variable} className="space-y-2">
+                <Label htmlFor={`prompt-variable-${variable}`} className="font-mono">
+                  {variable}
+                </Label>
+                <Input
+                  id={`prompt-variable-${variable}`}
+                  value={values[variable] ?? ""}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [variable]: e.target.value }))}
+                  autoFocus={index === 0}
+                />
+              </div>
+            ))}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setPending(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Insert</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <PromptEditorDialog open={showSave} onOpenChange={setShowSave} initialContent={currentContent} />
+    </>
+  );
+}
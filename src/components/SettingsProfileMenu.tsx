@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useSettingsProfilesStore } from "@/stores/settings-profiles-store";
+import { matchesProfileSettings, pickProfileSettings } from "@/lib/settings-profiles";
+import { ProfileSettings } from "@/types/chat";
+
+interface SettingsProfileMenuProps {
+  /** Chat settings or a query form; only the profile-able keys are read */
+  settings: object;
+  onApply: (profile: ProfileSettings) => void;
+}
+
+// Save, switch and delete named settings profiles
+export function SettingsProfileMenu({ settings, onApply }: SettingsProfileMenuProps) {
+  const { profiles, saveProfile, deleteProfile } = useSettingsProfilesStore();
+  const [saveOpen, setSaveOpen] = useState(false);
+  const [name, setName] = useState("");
+  const { toast } = useToast();
+
+  // The profile is "active" while nothing it sets has been changed
+  const activeProfile = profiles.find((p) => matchesProfileSettings(settings, p.settings));
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    saveProfile(trimmed, pickProfileSettings(settings));
+    setSaveOpen(false);
+    toast({
+      title: "Profile saved",
+      description: `"${trimmed}" is available in the chat and the query playground.`,
+    });
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile) return;
+    deleteProfile(activeProfile.id);
+    toast({
+      title: "Profile deleted",
+      description: `"${activeProfile.name}" has been removed.`,
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Profile</Label>
+      <div className="flex items-center gap-2">
+        <Select
+          value={activeProfile?.id ?? ""}
+          onValueChange={(id) => {
+            const profile = profiles.find((p) => p.id === id);
+            if (profile) onApply(profile.settings);
+          }}
+          disabled={profiles.length === 0}
+        >
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={profiles.length === 0 ? "No saved profiles" : "Custom settings"} />
+          </SelectTrigger>
+          <SelectContent>
+            {profiles.map((profile) => (
+              <SelectItem key={profile.id} value={profile.id}>
+                {profile.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Popover
+          open={saveOpen}
+          onOpenChange={(open) => {
+            setSaveOpen(open);
+            if (open) setName(activeProfile?.name ?? "");
+          }}
+        >
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm" aria-label="Save as profile">
+              <Save className="h-4 w-4" />
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-3">
+            <Label htmlFor="profile-name">Save current settings as</Label>
+            <Input
+              id="profile-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleSave();
+                }
+              }}
+              placeholder="e.g. Precise code lookup"
+              autoFocus
+            />
+            <p className="text-xs text-muted-foreground">
+              Using an existing name overwrites that profile.
+            </p>
+            <div className="flex justify-end">
+              <Button type="button" size="sm" onClick={handleSave} disabled={!name.trim()}>
+                Save profile
+              </Button>
+            </div>
+          </PopoverContent>
+        </Popover>
+
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleDelete}
+          disabled={!activeProfile}
+          aria-label="Delete profile"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Profiles keep prompt, retrieval and generation settings, not knowledge bases.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Check, Copy, Link2, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCreateShare, useRevokeShare, useShareLinks } from "@/hooks/shares";
+import { SHARE_EXPIRY_OPTIONS, getShareUrl } from "@/lib/share";
+import { ChatMessage } from "@/types/chat";
+import { ShareKind } from "@/types/share";
+
+interface ShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: ShareKind;
+  /** Chat sessionId or AppRun _id the links belong to */
+  sourceId: string;
+  /** Called when a link is created, so it captures what's on screen at that moment */
+  getSnapshot: () => { title: string; messages: ChatMessage[] };
+}
+
+export function ShareDialog({ open, onOpenChange, kind, sourceId, getSnapshot }: ShareDialogProps) {
+  const [expiry, setExpiry] = useState("7");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { data, isLoading } = useShareLinks(open ? sourceId : null);
+  const createShare = useCreateShare();
+  const revokeShare = useRevokeShare();
+
+  const handleCopy = async (shareId: string) => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(shareId));
+      setCopiedId(shareId);
+      setTimeout(() => setCopiedId(null), 2000);
+    } catch (error) {
+      console.error("Failed to copy link:", error);
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const share = await createShare.mutateAsync({
+        kind,
+        sourceId,
+        ...getSnapshot(),
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      await handleCopy(share.shareId);
+      toast({
+        title: "Share link created",
+        description: "The link has been copied to your clipboard.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create share link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    try {
+      await revokeShare.mutateAsync(shareId);
+      toast({
+        title: "Link revoked",
+        description: "Anyone opening it will now see that it is no longer available.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to revoke share link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Share {kind === "chat" ? "conversation" : "app run"}</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can view a read-only snapshot. Later changes are not included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label>Link expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHARE_EXPIRY_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={option.days?.toString() ?? "never"}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={createShare.isPending}>
+            {createShare.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="h-4 w-4 mr-2" />
+            )}
+            Create link
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Active links</Label>
+          {isLoading ? (
+            <Skeleton className="h-10 w-full" />
+          ) : !data || data.shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No active links.</p>
+          ) : (
+            data.shares.map((share) => (
+              <div key={share.shareId} className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Input
+                    readOnly
+                    value={getShareUrl(share.shareId)}
+                    className="font-mono text-xs"
+                    onFocus={(e) => e.target.select()}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCopy(share.shareId)}
+                    aria-label="Copy link"
+                  >
+                    {copiedId === share.shareId ? (
+                      <Check className="h-4 w-4 text-green-600" />
+                    ) : (
+                      <Copy className="h-4 w-4" />
+                    )}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRevoke(share.shareId)}
+                    disabled={revokeShare.isPending}
+                    aria-label="Revoke link"
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Created {format(new Date(share.createdAt), "MMM dd, yyyy HH:mm")} ·{" "}
+                  {share.expiresAt
+                    ? `expires ${format(new Date(share.expiresAt), "MMM dd, yyyy HH:mm")}`
+                    : "never expires"}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
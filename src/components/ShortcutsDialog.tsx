@@ -0,0 +1,69 @@
+import { Fragment } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { SHORTCUTS, Shortcut, ShortcutBinding, formatBinding } from "@/lib/shortcuts";
+
+interface ShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SCOPES: Shortcut["scope"][] = ["Global", "Chat input"];
+
+export function KeyCaps({ binding }: { binding: ShortcutBinding }) {
+  return (
+    <span className="flex items-center gap-1">
+      {formatBinding(binding).map((key) => (
+        <kbd
+          key={key}
+          className="min-w-6 rounded border bg-muted px-1.5 py-0.5 text-center font-mono text-xs"
+        >
+          {key}
+        </kbd>
+      ))}
+    </span>
+  );
+}
+
+// Cheat sheet of every keyboard binding, grouped by where it applies
+export function ShortcutsDialog({ open, onOpenChange }: ShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard shortcuts</DialogTitle>
+          <DialogDescription>Everything else is a few keystrokes away in the command palette.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {SCOPES.map((scope) => (
+            <div key={scope}>
+              <h3 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                {scope}
+              </h3>
+              <div className="space-y-2">
+                {SHORTCUTS.filter((shortcut) => shortcut.scope === scope).map((shortcut) => (
+                  <div key={shortcut.id} className="flex items-center justify-between gap-4 text-sm">
+                    <span>{shortcut.description}</span>
+                    <span className="flex items-center gap-2">
+                      {shortcut.bindings.map((binding, index) => (
+                        <Fragment key={index}>
+                          {index > 0 && <span className="text-xs text-muted-foreground">or</span>}
+                          <KeyCaps binding={binding} />
+                        </Fragment>
+                      ))}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
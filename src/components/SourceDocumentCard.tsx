@@ -2,20 +2,33 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SourceDocument } from "@/types/api";
 import { formatScore } from "@/lib/api";
+import { cn } from "@/lib/utils";
 
 interface SourceDocumentCardProps {
   document: SourceDocument;
+  /** 1-based number used by inline citations, shown next to the title */
+  index?: number;
+  /** Briefly set when a citation pointing at this card was clicked */
+  highlighted?: boolean;
 }
 
-export function SourceDocumentCard({ document }: SourceDocumentCardProps) {
+export function SourceDocumentCard({ document, index, highlighted }: SourceDocumentCardProps) {
   const displayName = document.source_name || document.filename;
   const displayScore = document.rerank_score || document.similarity_score;
   
   return (
-    <Card className="mb-4">
+    <Card
+      className={cn(
+        "mb-4 transition-shadow duration-500",
+        highlighted && "ring-2 ring-primary ring-offset-2"
+      )}
+    >
       <CardHeader className="pb-3">
         <div className="flex items-center justify-between">
           <CardTitle className="text-sm font-medium">
+            {index !== undefined && (
+              <span className="mr-1 text-muted-foreground">[{index}]</span>
+            )}
             {displayName}
           </CardTitle>
           <div className="flex gap-2">
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from "react";
+import { Brain, ChevronDown, ChevronUp, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+interface ThinkingPanelProps {
+  reasoning: string;
+  /** True while reasoning text is still streaming */
+  isThinking: boolean;
+  /** Final reasoning duration, once known */
+  durationMs?: number;
+}
+
+function formatDuration(ms: number) {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// Collapsible deep-reasoning trace shown above an assistant answer
+export function ThinkingPanel({ reasoning, isThinking, durationMs }: ThinkingPanelProps) {
+  const [open, setOpen] = useState(isThinking);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const startRef = useRef(Date.now());
+  const traceRef = useRef<HTMLDivElement>(null);
+
+  // Tick a live timer while reasoning, then fold the trace away
+  useEffect(() => {
+    if (!isThinking) {
+      setOpen(false);
+      return;
+    }
+    const timer = setInterval(() => setElapsedMs(Date.now() - startRef.current), 1000);
+    return () => clearInterval(timer);
+  }, [isThinking]);
+
+  // Follow the newest reasoning text while it streams
+  useEffect(() => {
+    if (isThinking && open && traceRef.current) {
+      traceRef.current.scrollTop = traceRef.current.scrollHeight;
+    }
+  }, [reasoning, isThinking, open]);
+
+  const label = isThinking
+    ? `Thinking… ${elapsedMs > 0 ? formatDuration(elapsedMs) : ""}`
+    : durationMs !== undefined
+      ? `Thought for ${formatDuration(durationMs)}`
+      : "Reasoning";
+
+  return (
+    <div className="mb-3 rounded-lg border bg-muted/30">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setOpen(!open)}
+        className="h-auto w-full justify-start gap-2 px-3 py-2 text-xs text-muted-foreground hover:bg-muted/50"
+        aria-expanded={open}
+      >
+        {isThinking ? (
+          <Loader2 className="h-3 w-3 animate-spin" />
+        ) : (
+          <Brain className="h-3 w-3" />
+        )}
+        <span className="tabular-nums">{label}</span>
+        {open ? (
+          <ChevronUp className="ml-auto h-3 w-3" />
+        ) : (
+          <ChevronDown className="ml-auto h-3 w-3" />
+        )}
+      </Button>
+      {open && (
+        <div
+          ref={traceRef}
+          className="max-h-64 overflow-y-auto border-t px-3 py-2 text-xs leading-relaxed text-muted-foreground whitespace-pre-wrap"
+        >
+          {reasoning}
+        </div>
+      )}
+    </div>
+  );
+}
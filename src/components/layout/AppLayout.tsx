@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useRef } from "react";
 import { NavItems } from "./SideNav";
+import { CommandPalette } from "@/components/CommandPalette";
 import { Button } from "@/components/ui/button";
 import Image from "next/image";
 import Link from "next/link";
@@ -114,6 +115,9 @@ export function AppLayout({ children }: AppLayoutProps) {
         />
       )}
 
+      {/* Ctrl/Cmd+K search */}
+      <CommandPalette />
+
       {/* Main content - full width */}
       <main className="flex-1 overflow-y-auto w-full px-20 bg-gray-50">
         {children}
@@ -6,16 +6,24 @@ import {
   Database,
   AppWindow,
   Settings,
+  TextSearch,
+  ThumbsDown,
+  BookText,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 // Define the nav items outside the component so they can be reused
-const navItems = [
+export const navItems = [
   {
     href: "/",
     label: "Home",
     icon: MessageCircle,
   },
+  {
+    href: "/search",
+    label: "Search History",
+    icon: TextSearch,
+  },
   {
     href: "/apps",
     label: "Apps",
@@ -26,6 +34,16 @@ const navItems = [
     label: "Query Playground",
     icon: Search,
   },
+  {
+    href: "/prompts",
+    label: "Prompts",
+    icon: BookText,
+  },
+  {
+    href: "/feedback",
+    label: "Feedback",
+    icon: ThumbsDown,
+  },
   {
     href: "/stores",
     label: "Knowledge Bases",
@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { diffSimilarity, diffWords } from "@/lib/text-diff";
+
+interface AnswerDiffProps {
+  /** The answer compared against, e.g. variant A */
+  baseline: string;
+  answer: string;
+}
+
+// Plain-text answer with words added since the baseline in green and dropped ones struck out
+export function AnswerDiff({ baseline, answer }: AnswerDiffProps) {
+  const segments = useMemo(() => diffWords(baseline, answer), [baseline, answer]);
+  const similarity = diffSimilarity(segments);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">{Math.round(similarity * 100)}% unchanged</p>
+      <div className="whitespace-pre-wrap text-sm leading-relaxed">
+        {segments.map((segment, index) => (
+          <span
+            key={index}
+            className={cn(
+              segment.type === "added" && "bg-green-100 text-green-900",
+              segment.type === "removed" && "bg-red-100 text-red-900 line-through"
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import { Columns2, FileText, Loader2, Play, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Markdown } from "@/components/Markdown";
+import { VariantEditor } from "@/components/query/VariantEditor";
+import { AnswerDiff } from "@/components/query/AnswerDiff";
+import { queryApi, formatScore } from "@/lib/api";
+import { cn } from "@/lib/utils";
+import { useRecordUsage } from "@/hooks/usage";
+import {
+  MAX_VARIANTS,
+  MIN_VARIANTS,
+  QueryVariant,
+  buildVariantRequest,
+  describeOverrides,
+  getSourceOverlap,
+  variantLabel,
+} from "@/lib/query-compare";
+import { QueryRequest, QueryResponse } from "@/types/api";
+
+interface CompareViewProps {
+  /** Playground configuration every variant starts from, question included */
+  base: QueryRequest;
+}
+
+type VariantResult =
+  | { status: "running" }
+  | { status: "done"; result: QueryResponse }
+  | { status: "error"; error: string };
+
+// Static class names so Tailwind keeps them
+const GRID_COLUMNS: Record<number, string> = {
+  2: "md:grid-cols-2",
+  3: "md:grid-cols-3",
+  4: "md:grid-cols-4",
+};
+
+const createVariant = (): QueryVariant => ({ id: uuidv4(), overrides: {} });
+
+// Runs the same question through several configurations and lines the results up
+export function CompareView({ base }: CompareViewProps) {
+  const [variants, setVariants] = useState<QueryVariant[]>(() =>
+    Array.from({ length: MIN_VARIANTS }, createVariant)
+  );
+  const [results, setResults] = useState<Record<string, VariantResult>>({});
+  const [showDiff, setShowDiff] = useState(false);
+  const recordUsage = useRecordUsage();
+
+  const isRunning = Object.values(results).some((r) => r.status === "running");
+  const canRun = !!base.question.trim() || (base.images?.length ?? 0) > 0;
+
+  const clearResult = (id: string) =>
+    setResults((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+
+  // An answer only belongs to the settings that produced it
+  const updateVariant = (id: string, overrides: QueryVariant["overrides"]) => {
+    setVariants((prev) => prev.map((v) => (v.id === id ? { ...v, overrides } : v)));
+    clearResult(id);
+  };
+
+  const removeVariant = (id: string) => {
+    setVariants((prev) => prev.filter((v) => v.id !== id));
+    clearResult(id);
+  };
+
+  const handleRun = () => {
+    setResults(Object.fromEntries(variants.map((v) => [v.id, { status: "running" }])));
+    // Each column fills in as soon as its own answer arrives
+    variants.forEach((variant) => {
+      queryApi
+        .query(buildVariantRequest(base, variant.overrides))
+        .then((result): VariantResult => {
+          if (result.usage) recordUsage.mutate({ origin: "query", ...result.usage });
+          return { status: "done", result };
+        })
+        .catch(
+          (error): VariantResult => ({
+            status: "error",
+            error: error instanceof Error ? error.message : "Failed to execute query",
+          })
+        )
+        .then((outcome) => setResults((prev) => ({ ...prev, [variant.id]: outcome })));
+    });
+  };
+
+  const done = variants.map((v) => {
+    const outcome = results[v.id];
+    return outcome?.status === "done" ? outcome.result : null;
+  });
+  const overlap = getSourceOverlap(done.map((result) => result?.sources ?? []));
+  const allDone = done.every(Boolean);
+  // Overlap badges wait for every variant, or "Only A" would show while B is still running
+  const allSettled = variants.every((v) => results[v.id] && results[v.id].status !== "running");
+  const baseline = done[0]?.response ?? "";
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Button onClick={handleRun} disabled={!canRun || isRunning}>
+            {isRunning ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Play className="h-4 w-4 mr-2" />
+            )}
+            Run {variants.length} variants
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setVariants((prev) => [...prev, createVariant()])}
+            disabled={variants.length >= MAX_VARIANTS || isRunning}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add variant
+          </Button>
+        </div>
+        <Button
+          variant={showDiff ? "secondary" : "ghost"}
+          size="sm"
+          onClick={() => setShowDiff((prev) => !prev)}
+          disabled={!done[0]}
+        >
+          <Columns2 className="h-4 w-4 mr-2" />
+          {showDiff ? "Showing differences from A" : "Highlight differences from A"}
+        </Button>
+      </div>
+
+      {!canRun && (
+        <p className="text-sm text-muted-foreground">
+          Enter a question in the configuration panel; every variant answers the same one.
+        </p>
+      )}
+
+      {/* Retrieval overlap across all variants */}
+      {allDone && (
+        <div className="flex flex-wrap items-center gap-3 rounded-md border bg-muted/30 px-3 py-2 text-sm">
+          <FileText className="h-4 w-4 text-muted-foreground" />
+          {done.map((result, index) => (
+            <span key={variants[index].id}>
+              <span className="font-medium">{variantLabel(index)}</span> {result!.sources.length} sources
+            </span>
+          ))}
+          <span className="text-muted-foreground">· {overlap.inAll} retrieved by all</span>
+        </div>
+      )}
+
+      <div className={cn("grid grid-cols-1 gap-4", GRID_COLUMNS[variants.length])}>
+        {variants.map((variant, index) => {
+          const outcome = results[variant.id];
+          const label = variantLabel(index);
+          return (
+            <div key={variant.id} className="min-w-0 space-y-4 rounded-lg border p-4">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold">Variant {label}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {describeOverrides(base, variant.overrides)}
+                  </p>
+                </div>
+                {variants.length > MIN_VARIANTS && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => removeVariant(variant.id)}
+                    disabled={isRunning}
+                    aria-label={`Remove variant ${label}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              <VariantEditor
+                base={base}
+                overrides={variant.overrides}
+                onChange={(overrides) => updateVariant(variant.id, overrides)}
+                disabled={isRunning}
+              />
+
+              <div className="border-t pt-4">
+                {!outcome && (
+                  <p className="text-sm text-muted-foreground">Run the comparison to see this answer.</p>
+                )}
+                {outcome?.status === "running" && (
+                  <div className="space-y-2">
+                    <Skeleton className="h-4 w-full" />
+                    <Skeleton className="h-4 w-3/4" />
+                    <Skeleton className="h-4 w-1/2" />
+                  </div>
+                )}
+                {outcome?.status === "error" && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{outcome.error}</AlertDescription>
+                  </Alert>
+                )}
+                {outcome?.status === "done" &&
+                  (showDiff && index > 0 && done[0] ? (
+                    <AnswerDiff baseline={baseline} answer={outcome.result.response} />
+                  ) : (
+                    <Markdown size="sm">{outcome.result.response}</Markdown>
+                  ))}
+              </div>
+
+              {outcome?.status === "done" && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">
+                    Sources ({outcome.result.sources.length} retrieved)
+                  </p>
+                  {outcome.result.sources.map((source, sourceIndex) => {
+                    const others = overlap.sharedWith[index][sourceIndex];
+                    return (
+                      <div
+                        key={sourceIndex}
+                        className="flex items-center justify-between gap-2 rounded border px-2 py-1 text-xs"
+                      >
+                        <span className="min-w-0 truncate">
+                          {source.source_name || source.filename}
+                          <span className="text-muted-foreground"> · chunk {source.chunk_index}</span>
+                        </span>
+                        <span className="flex shrink-0 items-center gap-1">
+                          <span className="text-muted-foreground">
+                            {formatScore(source.rerank_score || source.similarity_score)}
+                          </span>
+                          {!allSettled ? null : others.length === variants.length - 1 ? (
+                            <Badge variant="secondary" className="text-[10px]">In all</Badge>
+                          ) : others.length === 0 ? (
+                            <Badge variant="outline" className="text-[10px]">Only {label}</Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-[10px]">
+                              Also {others.map(variantLabel).join(", ")}
+                            </Badge>
+                          )}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
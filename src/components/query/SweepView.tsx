@@ -0,0 +1,386 @@
+import { useRef, useState } from "react";
+import { ArrowDown, ArrowUp, Grid3x3, Loader2, Play, Save, Square } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AppFormModal } from "@/components/AppFormModal";
+import { queryApi, formatScore } from "@/lib/api";
+import { getAppRequestFromQuery } from "@/lib/app-settings";
+import { VariantOverrides, buildVariantRequest } from "@/lib/query-compare";
+import {
+  MAX_CONCURRENCY,
+  MAX_SWEEP_RUNS,
+  SWEEP_PARAMETERS,
+  SweepParameter,
+  SweepRange,
+  SweepRun,
+  SweepSummary,
+  buildSweepGrid,
+  getSweepSize,
+  runWithConcurrency,
+  summarizeSweep,
+} from "@/lib/query-sweep";
+import { cn } from "@/lib/utils";
+import { useRecordUsage } from "@/hooks/usage";
+import { QueryRequest } from "@/types/api";
+
+interface SweepViewProps {
+  /** Playground configuration; swept parameters override it per run */
+  base: QueryRequest;
+}
+
+type MetricKey = "answerLength" | "sourceCount" | "similarity" | "rerank" | "confidence";
+type SortKey = SweepParameter | "query_expansion" | MetricKey;
+
+const METRICS: Array<{ key: MetricKey; label: string; format: (value: number) => string }> = [
+  { key: "answerLength", label: "Answer length", format: (v) => `${Math.round(v)} chars` },
+  { key: "sourceCount", label: "Sources", format: (v) => v.toFixed(1) },
+  { key: "similarity", label: "Similarity", format: formatScore },
+  { key: "rerank", label: "Rerank", format: formatScore },
+  { key: "confidence", label: "Confidence", format: (v) => `${(v * 100).toFixed(1)}%` },
+];
+
+const DEFAULT_CONCURRENCY = 3;
+
+// Settings and questions of the last run; the form can change while results are shown
+interface SweepSnapshot {
+  base: QueryRequest;
+  grid: VariantOverrides[];
+  questions: string[];
+  parameters: SweepParameter[];
+  sweptQueryExpansion: boolean;
+}
+
+interface SortableHeadProps {
+  sortKey: SortKey;
+  label: string;
+  sort: { key: SortKey; descending: boolean };
+  onSort: (key: SortKey) => void;
+}
+
+function SortableHead({ sortKey, label, sort, onSort }: SortableHeadProps) {
+  return (
+    <TableHead>
+      <button
+        type="button"
+        className="flex items-center gap-1 whitespace-nowrap"
+        onClick={() => onSort(sortKey)}
+      >
+        {label}
+        {sort.key === sortKey &&
+          (sort.descending ? <ArrowDown className="h-3 w-3" /> : <ArrowUp className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
+}
+
+function sortValue(summary: SweepSummary, key: SortKey): number | null {
+  if (key in summary.overrides) return Number(summary.overrides[key as keyof VariantOverrides]);
+  return summary[key as MetricKey] ?? null;
+}
+
+// Runs the playground configuration over a grid of retrieval settings and ranks the combinations
+export function SweepView({ base }: SweepViewProps) {
+  const [ranges, setRanges] = useState<Record<SweepParameter, SweepRange>>(() =>
+    Object.fromEntries(SWEEP_PARAMETERS.map(({ key, range }) => [key, range])) as Record<
+      SweepParameter,
+      SweepRange
+    >
+  );
+  const [sweepQueryExpansion, setSweepQueryExpansion] = useState(false);
+  const [questionsText, setQuestionsText] = useState(base.question);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY);
+
+  const [snapshot, setSnapshot] = useState<SweepSnapshot | null>(null);
+  const [runs, setRuns] = useState<SweepRun[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const recordUsage = useRecordUsage();
+  const stopRef = useRef(false);
+
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "rerank",
+    descending: true,
+  });
+  const [saveTarget, setSaveTarget] = useState<VariantOverrides | null>(null);
+
+  const questions = questionsText
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const comboCount = getSweepSize(ranges, sweepQueryExpansion);
+  const totalRuns = comboCount * questions.length;
+
+  const updateRange = (key: SweepParameter, patch: Partial<SweepRange>) =>
+    setRanges((prev) => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+
+  const handleRun = async () => {
+    const grid = buildSweepGrid(ranges, sweepQueryExpansion);
+    const current: SweepSnapshot = {
+      base,
+      grid,
+      questions,
+      parameters: SWEEP_PARAMETERS.filter(({ key }) => ranges[key].enabled).map(({ key }) => key),
+      sweptQueryExpansion: sweepQueryExpansion,
+    };
+    const tasks = grid.flatMap((overrides, combo) =>
+      questions.map((question) => async (): Promise<SweepRun> => ({
+        combo,
+        question,
+        response: await queryApi.query(buildVariantRequest({ ...base, question }, overrides)),
+      }))
+    );
+
+    setSnapshot(current);
+    setRuns([]);
+    setIsRunning(true);
+    stopRef.current = false;
+    await runWithConcurrency(
+      tasks,
+      concurrency,
+      (index, result) => {
+        if (result.status === "fulfilled" && result.value.response?.usage) {
+          recordUsage.mutate({ origin: "query", ...result.value.response.usage });
+        }
+        const run: SweepRun =
+          result.status === "fulfilled"
+            ? result.value
+            : {
+                combo: Math.floor(index / questions.length),
+                question: questions[index % questions.length],
+                error: result.reason instanceof Error ? result.reason.message : "Failed to execute query",
+              };
+        setRuns((prev) => [...prev, run]);
+      },
+      () => stopRef.current
+    );
+    setIsRunning(false);
+  };
+
+  const summaries = snapshot ? summarizeSweep(snapshot.grid, runs) : [];
+  const sorted = [...summaries].sort((a, b) => {
+    const x = sortValue(a, sort.key);
+    const y = sortValue(b, sort.key);
+    // Combinations without a value yet always go last
+    if (x === null || y === null) return x === null ? (y === null ? 0 : 1) : -1;
+    return sort.descending ? y - x : x - y;
+  });
+  const best = sorted.find((summary) => summary.runs > summary.errors);
+  const expectedRuns = snapshot ? snapshot.grid.length * snapshot.questions.length : 0;
+
+  const toggleSort = (key: SortKey) =>
+    setSort((prev) => ({ key, descending: prev.key === key ? !prev.descending : true }));
+  const headProps = { sort, onSort: toggleSort };
+
+  return (
+    <div className="space-y-6">
+      {/* Ranges */}
+      <div className="space-y-3">
+        <Label>Parameters</Label>
+        {SWEEP_PARAMETERS.map(({ key, label }) => {
+          const range = ranges[key];
+          return (
+            <div key={key} className="grid grid-cols-[1fr_repeat(3,5rem)] items-center gap-2 text-sm">
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={range.enabled}
+                  onCheckedChange={(checked) => updateRange(key, { enabled: checked === true })}
+                  disabled={isRunning}
+                />
+                {label}
+              </label>
+              {(["from", "to", "step"] as const).map((field) => (
+                <Input
+                  key={field}
+                  type="number"
+                  value={range[field]}
+                  onChange={(e) => updateRange(key, { [field]: Number(e.target.value) })}
+                  disabled={!range.enabled || isRunning}
+                  aria-label={`${label} ${field}`}
+                  className="h-8"
+                />
+              ))}
+            </div>
+          );
+        })}
+        <div className="flex items-center gap-2 text-sm">
+          <Switch
+            checked={sweepQueryExpansion}
+            onCheckedChange={setSweepQueryExpansion}
+            disabled={isRunning}
+          />
+          Try query expansion on and off
+        </div>
+      </div>
+
+      {/* Questions */}
+      <div className="space-y-2">
+        <Label htmlFor="sweep-questions">Questions (one per line)</Label>
+        <Textarea
+          id="sweep-questions"
+          value={questionsText}
+          onChange={(e) => setQuestionsText(e.target.value)}
+          placeholder="What is our refund policy?"
+          className="min-h-[80px]"
+          disabled={isRunning}
+        />
+      </div>
+
+      {/* Run controls */}
+      <div className="flex flex-wrap items-center gap-3">
+        {isRunning ? (
+          <Button variant="outline" onClick={() => (stopRef.current = true)}>
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        ) : (
+          <Button
+            onClick={handleRun}
+            disabled={questions.length === 0 || totalRuns === 0 || totalRuns > MAX_SWEEP_RUNS}
+          >
+            <Play className="h-4 w-4 mr-2" />
+            Run {totalRuns} queries
+          </Button>
+        )}
+        <div className="flex items-center gap-2 text-sm">
+          <Label htmlFor="sweep-concurrency">Parallel</Label>
+          <Input
+            id="sweep-concurrency"
+            type="number"
+            min={1}
+            max={MAX_CONCURRENCY}
+            value={concurrency}
+            onChange={(e) =>
+              setConcurrency(Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)))
+            }
+            disabled={isRunning}
+            className="h-8 w-16"
+          />
+        </div>
+        <span
+          className={cn(
+            "text-xs text-muted-foreground",
+            totalRuns > MAX_SWEEP_RUNS && "text-red-600"
+          )}
+        >
+          {comboCount} combinations × {questions.length} questions
+          {totalRuns > MAX_SWEEP_RUNS && ` exceeds the limit of ${MAX_SWEEP_RUNS}`}
+        </span>
+      </div>
+
+      {snapshot && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            {isRunning && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            <Progress value={(runs.length / expectedRuns) * 100} className="flex-1" />
+            <span className="text-xs tabular-nums text-muted-foreground">
+              {runs.length} / {expectedRuns}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => best && setSaveTarget(best.overrides)}
+              disabled={!best}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save top row as App
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {snapshot.parameters.map((key) => (
+                    <SortableHead
+                      key={key}
+                      sortKey={key}
+                      label={SWEEP_PARAMETERS.find((p) => p.key === key)!.label}
+                      {...headProps}
+                    />
+                  ))}
+                  {snapshot.sweptQueryExpansion && (
+                    <SortableHead sortKey="query_expansion" label="Expansion" {...headProps} />
+                  )}
+                  <TableHead>Runs</TableHead>
+                  {METRICS.map((metric) => (
+                    <SortableHead
+                      key={metric.key}
+                      sortKey={metric.key}
+                      label={metric.label}
+                      {...headProps}
+                    />
+                  ))}
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sorted.map((summary) => (
+                  <TableRow key={summary.combo} className={cn(summary === best && "bg-green-50")}>
+                    {snapshot.parameters.map((key) => (
+                      <TableCell key={key} className="tabular-nums">
+                        {summary.overrides[key]}
+                      </TableCell>
+                    ))}
+                    {snapshot.sweptQueryExpansion && (
+                      <TableCell>{summary.overrides.query_expansion ? "On" : "Off"}</TableCell>
+                    )}
+                    <TableCell className="tabular-nums">
+                      {summary.runs}/{snapshot.questions.length}
+                      {summary.errors > 0 && (
+                        <span className="ml-1 text-red-600">({summary.errors} failed)</span>
+                      )}
+                    </TableCell>
+                    {METRICS.map((metric) => {
+                      const value = summary[metric.key];
+                      return (
+                        <TableCell key={metric.key} className="whitespace-nowrap tabular-nums">
+                          {value === null ? "—" : metric.format(value)}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-7 px-2"
+                        onClick={() => setSaveTarget(summary.overrides)}
+                        disabled={summary.runs === summary.errors}
+                        aria-label="Save these settings as an App"
+                      >
+                        <Save className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {!snapshot && (
+        <div className="flex flex-col items-center gap-2 py-8 text-center text-muted-foreground">
+          <Grid3x3 className="h-10 w-10" />
+          <p className="text-sm">
+            Pick ranges and questions; every combination runs with the rest of the playground settings.
+          </p>
+        </div>
+      )}
+
+      {/* Remounted per target so the form picks up its values */}
+      {saveTarget && snapshot && (
+        <AppFormModal
+          key={JSON.stringify(saveTarget)}
+          isOpen
+          onClose={() => setSaveTarget(null)}
+          initialValues={getAppRequestFromQuery(buildVariantRequest(snapshot.base, saveTarget))}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import { VariantOverrides } from "@/lib/query-compare";
+import { QueryRequest } from "@/types/api";
+
+interface VariantEditorProps {
+  base: QueryRequest;
+  overrides: VariantOverrides;
+  onChange: (overrides: VariantOverrides) => void;
+  disabled?: boolean;
+}
+
+type NumberSetting = "top_k" | "similarity_threshold" | "max_docs_for_context" | "temperature";
+type BooleanSetting = "query_expansion" | "deep_reasoning";
+
+// Same ranges as the playground's own controls
+const SLIDERS: Array<{ key: NumberSetting; label: string; min: number; max: number; step: number }> = [
+  { key: "top_k", label: "Top K", min: 1, max: 20, step: 1 },
+  { key: "similarity_threshold", label: "Similarity Threshold", min: 0, max: 1, step: 0.01 },
+  { key: "max_docs_for_context", label: "Max Docs for Context", min: 1, max: 10, step: 1 },
+  { key: "temperature", label: "Temperature", min: 0, max: 1, step: 0.01 },
+];
+
+const SWITCHES: Array<{ key: BooleanSetting; label: string }> = [
+  { key: "query_expansion", label: "Query Expansion" },
+  { key: "deep_reasoning", label: "Deep Reasoning" },
+];
+
+// Settings a comparison variant changes; anything left alone follows the playground
+export function VariantEditor({ base, overrides, onChange, disabled }: VariantEditorProps) {
+  const isChanged = (key: keyof VariantOverrides) =>
+    overrides[key] !== undefined && overrides[key] !== base[key];
+
+  const set = <K extends keyof VariantOverrides>(key: K, value: VariantOverrides[K]) => {
+    const next = { ...overrides, [key]: value };
+    // Matching the playground again means following it from now on
+    if (value === base[key]) delete next[key];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      {SLIDERS.map(({ key, label, ...range }) => {
+        const value = overrides[key] ?? base[key];
+        return (
+          <div key={key} className="space-y-2">
+            <Label className={cn("text-xs", isChanged(key) && "text-primary font-semibold")}>
+              {label}: {value}
+            </Label>
+            <Slider
+              value={[value]}
+              onValueChange={([next]) => set(key, next)}
+              disabled={disabled}
+              {...range}
+            />
+          </div>
+        );
+      })}
+
+      {SWITCHES.map(({ key, label }) => (
+        <div key={key} className="flex items-center justify-between">
+          <Label className={cn("text-xs", isChanged(key) && "text-primary font-semibold")}>{label}</Label>
+          <Switch
+            checked={overrides[key] ?? base[key] ?? false}
+            onCheckedChange={(checked) => set(key, checked)}
+            disabled={disabled}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label className={cn("text-xs", isChanged("system_prompt") && "text-primary font-semibold")}>
+          System Prompt
+        </Label>
+        <Textarea
+          value={overrides.system_prompt ?? base.system_prompt ?? ""}
+          onChange={(e) => set("system_prompt", e.target.value)}
+          placeholder="Same as the playground"
+          className="min-h-[60px] text-xs"
+          disabled={disabled}
+        />
+      </div>
+
+      {Object.keys(overrides).length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => onChange({})}
+          disabled={disabled}
+        >
+          <RotateCcw className="h-3 w-3 mr-1" />
+          Reset to playground settings
+        </Button>
+      )}
+    </div>
+  );
+}
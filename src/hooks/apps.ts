@@ -6,6 +6,7 @@ import {
   RunAppRequest,
   RunAppResponse,
   AppRun,
+  RecordAppRunRequest,
 } from "@/types/app";
 
 // API functions
@@ -59,6 +60,16 @@ const appsApi = {
     return response.json();
   },
 
+  recordRun: async (id: string, data: RecordAppRunRequest): Promise<AppRun> => {
+    const response = await fetch(`/api/apps/${id}/history`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to record app run");
+    return response.json();
+  },
+
   getRuns: async (id: string): Promise<{ runs: AppRun[]; total: number }> => {
     const response = await fetch(`/api/apps/${id}/history`);
     if (!response.ok) throw new Error("Failed to fetch app runs");
@@ -67,10 +78,11 @@ const appsApi = {
 };
 
 // React Query hooks
-export const useApps = () => {
+export const useApps = ({ enabled = true }: { enabled?: boolean } = {}) => {
   return useQuery({
     queryKey: ["apps"],
     queryFn: appsApi.getAll,
+    enabled,
   });
 };
 
@@ -136,3 +148,15 @@ export const useRunApp = () => {
     },
   });
 };
+
+export const useRecordAppRun = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: RecordAppRunRequest }) =>
+      appsApi.recordRun(id, data),
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ["app-runs", id] });
+    },
+  });
+};
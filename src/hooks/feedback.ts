@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  CreateFeedbackRequest,
+  Feedback,
+  FeedbackFilters,
+  FeedbackListResponse,
+  UpdateFeedbackRequest,
+} from "@/types/feedback";
+
+// API functions
+export const feedbackApi = {
+  getAll: async (filters: FeedbackFilters = {}): Promise<FeedbackListResponse> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") params.set(key, String(value));
+    });
+    const response = await fetch(`/api/feedback?${params.toString()}`);
+    if (!response.ok) throw new Error("Failed to fetch feedback");
+    return response.json();
+  },
+
+  create: async (data: CreateFeedbackRequest): Promise<Feedback> => {
+    const response = await fetch("/api/feedback", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to save feedback");
+    return response.json();
+  },
+
+  update: async (id: string, data: UpdateFeedbackRequest): Promise<Feedback> => {
+    const response = await fetch(`/api/feedback/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to update feedback");
+    return response.json();
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/feedback/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) throw new Error("Failed to delete feedback");
+  },
+};
+
+// React Query hooks
+export const useFeedbackList = (filters: FeedbackFilters) => {
+  return useQuery({
+    queryKey: ["feedback", filters],
+    queryFn: () => feedbackApi.getAll(filters),
+  });
+};
+
+export const useCreateFeedback = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: feedbackApi.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["feedback"] });
+    },
+  });
+};
+
+export const useUpdateFeedback = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateFeedbackRequest }) =>
+      feedbackApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["feedback"] });
+    },
+  });
+};
+
+export const useDeleteFeedback = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: feedbackApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["feedback"] });
+    },
+  });
+};
@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  CreatePromptRequest,
+  Prompt,
+  PromptsResponse,
+  UpdatePromptRequest,
+} from "@/types/prompt";
+
+// API functions
+export const promptsApi = {
+  getAll: async (): Promise<PromptsResponse> => {
+    const response = await fetch("/api/prompts");
+    if (!response.ok) throw new Error("Failed to fetch prompts");
+    return response.json();
+  },
+
+  create: async (data: CreatePromptRequest): Promise<Prompt> => {
+    const response = await fetch("/api/prompts", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to save prompt");
+    return response.json();
+  },
+
+  update: async (id: string, data: UpdatePromptRequest): Promise<Prompt> => {
+    const response = await fetch(`/api/prompts/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to update prompt");
+    return response.json();
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/prompts/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) throw new Error("Failed to delete prompt");
+  },
+};
+
+// React Query hooks
+export const usePrompts = () => {
+  return useQuery({
+    queryKey: ["prompts"],
+    queryFn: promptsApi.getAll,
+  });
+};
+
+export const useCreatePrompt = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: promptsApi.create,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prompts"] });
+    },
+  });
+};
+
+export const useUpdatePrompt = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdatePromptRequest }) =>
+      promptsApi.update(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prompts"] });
+    },
+  });
+};
+
+export const useDeletePrompt = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: promptsApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["prompts"] });
+    },
+  });
+};
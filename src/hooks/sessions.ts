@@ -0,0 +1,91 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  ChatSearchResponse,
+  ChatSession,
+  ChatSessionsResponse,
+  SaveChatSessionRequest,
+} from "@/types/session";
+import { MIN_SEARCH_LENGTH } from "@/lib/chat-search";
+
+// API functions
+export const sessionsApi = {
+  getAll: async (): Promise<ChatSessionsResponse> => {
+    const response = await fetch("/api/sessions");
+    if (!response.ok) throw new Error("Failed to fetch chat sessions");
+    return response.json();
+  },
+
+  // Resolves to null when the session has never been saved
+  getById: async (id: string): Promise<ChatSession | null> => {
+    const response = await fetch(`/api/sessions/${id}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error("Failed to fetch chat session");
+    return response.json();
+  },
+
+  save: async (id: string, data: SaveChatSessionRequest): Promise<ChatSession> => {
+    const response = await fetch(`/api/sessions/${id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to save chat session");
+    return response.json();
+  },
+
+  search: async (query: string): Promise<ChatSearchResponse> => {
+    const response = await fetch(`/api/sessions/search?q=${encodeURIComponent(query)}`);
+    if (!response.ok) throw new Error("Failed to search chat history");
+    return response.json();
+  },
+
+  delete: async (id: string): Promise<void> => {
+    const response = await fetch(`/api/sessions/${id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) throw new Error("Failed to delete chat session");
+  },
+};
+
+// React Query hooks
+export const useChatSessions = ({ enabled = true }: { enabled?: boolean } = {}) => {
+  return useQuery({
+    queryKey: ["chat-sessions"],
+    queryFn: sessionsApi.getAll,
+    enabled,
+  });
+};
+
+export const useChatSearch = (query: string) => {
+  const trimmed = query.trim();
+  return useQuery({
+    queryKey: ["chat-sessions", "search", trimmed],
+    queryFn: () => sessionsApi.search(trimmed),
+    enabled: trimmed.length >= MIN_SEARCH_LENGTH,
+    placeholderData: (previous) => previous,
+  });
+};
+
+export const useSaveChatSession = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: SaveChatSessionRequest }) =>
+      sessionsApi.save(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["usage"] });
+    },
+  });
+};
+
+export const useDeleteChatSession = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sessionsApi.delete,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["chat-sessions"] });
+    },
+  });
+};
@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { CreateShareRequest, ShareLink, ShareLinksResponse, SharedSnapshot } from "@/types/share";
+
+// API functions
+export const sharesApi = {
+  getBySource: async (sourceId: string): Promise<ShareLinksResponse> => {
+    const response = await fetch(`/api/shares?sourceId=${encodeURIComponent(sourceId)}`);
+    if (!response.ok) throw new Error("Failed to fetch share links");
+    return response.json();
+  },
+
+  // Expired and revoked links answer with a reason worth showing the visitor
+  getById: async (shareId: string): Promise<SharedSnapshot> => {
+    const response = await fetch(`/api/shares/${shareId}`);
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || "Failed to load the shared conversation");
+    }
+    return response.json();
+  },
+
+  create: async (data: CreateShareRequest): Promise<ShareLink> => {
+    const response = await fetch("/api/shares", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to create share link");
+    return response.json();
+  },
+
+  revoke: async (shareId: string): Promise<void> => {
+    const response = await fetch(`/api/shares/${shareId}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) throw new Error("Failed to revoke share link");
+  },
+};
+
+// React Query hooks
+export const useShareLinks = (sourceId: string | null | undefined) => {
+  return useQuery({
+    queryKey: ["shares", sourceId],
+    queryFn: () => sharesApi.getBySource(sourceId!),
+    enabled: !!sourceId,
+  });
+};
+
+export const useSharedSnapshot = (shareId: string | undefined) => {
+  return useQuery({
+    queryKey: ["shared-snapshot", shareId],
+    queryFn: () => sharesApi.getById(shareId!),
+    enabled: !!shareId,
+    retry: false,
+  });
+};
+
+export const useCreateShare = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sharesApi.create,
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: ["shares", share.sourceId] });
+    },
+  });
+};
+
+export const useRevokeShare = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: sharesApi.revoke,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["shares"] });
+    },
+  });
+};
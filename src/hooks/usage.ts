@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { MonthlyUsageResponse, RecordUsageRequest } from "@/types/usage";
+
+// API functions
+export const usageApi = {
+  getMonthly: async (): Promise<MonthlyUsageResponse> => {
+    const response = await fetch("/api/usage/monthly");
+    if (!response.ok) throw new Error("Failed to fetch monthly usage");
+    return response.json();
+  },
+
+  record: async (data: RecordUsageRequest): Promise<void> => {
+    const response = await fetch("/api/usage", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+    if (!response.ok) throw new Error("Failed to record usage");
+  },
+};
+
+// React Query hooks
+export const useMonthlyUsage = () => {
+  return useQuery({
+    queryKey: ["usage", "monthly"],
+    queryFn: usageApi.getMonthly,
+  });
+};
+
+export const useRecordUsage = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: usageApi.record,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["usage"] });
+    },
+    onError: (error) => console.error("Failed to record usage:", error),
+  });
+};
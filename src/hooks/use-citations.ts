@@ -0,0 +1,43 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const HIGHLIGHT_DURATION_MS = 2000;
+
+/**
+ * Tracks which source card a citation points at. `focusSource` scrolls the
+ * card into view and highlights it briefly; `registerSource` wires up the
+ * card elements by their 1-based source number.
+ */
+export function useCitationFocus() {
+  const [highlighted, setHighlighted] = useState<number | null>(null);
+  const [pending, setPending] = useState<number | null>(null);
+  const cardsRef = useRef(new Map<number, HTMLElement>());
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const registerSource = useCallback(
+    (index: number) => (el: HTMLElement | null) => {
+      if (el) cardsRef.current.set(index, el);
+      else cardsRef.current.delete(index);
+    },
+    []
+  );
+
+  // Scrolling waits for the render that opens a collapsed source list
+  useEffect(() => {
+    if (pending === null) return;
+    const el = cardsRef.current.get(pending);
+    if (!el) return;
+
+    el.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlighted(pending);
+    setPending(null);
+
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => setHighlighted(null), HIGHLIGHT_DURATION_MS);
+  }, [pending]);
+
+  useEffect(() => () => clearTimeout(timeoutRef.current), []);
+
+  const focusSource = useCallback((index: number) => setPending(index), []);
+
+  return { highlighted, focusSource, registerSource };
+}
@@ -0,0 +1,74 @@
+import { useEffect, useRef, useState } from "react";
+import { postTabMessage, subscribeTabMessages, TAB_ID, TabSyncMessage } from "@/lib/tab-sync";
+
+// How often a streaming tab re-announces itself, and when silence ends its lock
+const STREAMING_HEARTBEAT_MS = 2000;
+const STREAMING_EXPIRY_MS = 5000;
+
+/** Run `listener` for messages from other tabs; the latest listener is always used */
+export function useTabMessages(listener: (message: TabSyncMessage) => void) {
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => subscribeTabMessages((message) => listenerRef.current(message)), []);
+}
+
+/**
+ * Announce this tab's stream on `sessionId` and report whether another tab is
+ * streaming into the same session. Locks from closed or crashed tabs expire
+ * once their heartbeat stops.
+ */
+export function useRemoteStreaming(sessionId: string, isStreaming: boolean): boolean {
+  // tabId -> session and time of the last announcement
+  const [locks, setLocks] = useState<Map<string, { sessionId: string; seenAt: number }>>(
+    () => new Map()
+  );
+
+  useTabMessages((message) => {
+    if (message.type === "streaming-query" && isStreaming && sessionId) {
+      postTabMessage({ type: "streaming", sessionId, tabId: TAB_ID, active: true });
+    }
+    if (message.type !== "streaming") return;
+    setLocks((prev) => {
+      const next = new Map(prev);
+      if (message.active) next.set(message.tabId, { sessionId: message.sessionId, seenAt: Date.now() });
+      else next.delete(message.tabId);
+      return next;
+    });
+  });
+
+  useEffect(() => {
+    postTabMessage({ type: "streaming-query" });
+  }, []);
+
+  useEffect(() => {
+    if (!isStreaming || !sessionId) return;
+    const announce = (active: boolean) =>
+      postTabMessage({ type: "streaming", sessionId, tabId: TAB_ID, active });
+    const release = () => announce(false);
+    announce(true);
+    const timer = setInterval(() => announce(true), STREAMING_HEARTBEAT_MS);
+    window.addEventListener("pagehide", release);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("pagehide", release);
+      release();
+    };
+  }, [isStreaming, sessionId]);
+
+  // Drop locks whose tab has gone quiet
+  const hasLocks = locks.size > 0;
+  useEffect(() => {
+    if (!hasLocks) return;
+    const timer = setInterval(() => {
+      const cutoff = Date.now() - STREAMING_EXPIRY_MS;
+      setLocks((prev) => {
+        const next = new Map([...prev].filter(([, lock]) => lock.seenAt > cutoff));
+        return next.size === prev.size ? prev : next;
+      });
+    }, STREAMING_HEARTBEAT_MS);
+    return () => clearInterval(timer);
+  }, [hasLocks]);
+
+  return [...locks.values()].some((lock) => lock.sessionId === sessionId);
+}
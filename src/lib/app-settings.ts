@@ -0,0 +1,59 @@
+import { App, CreateAppRequest } from "@/types/app";
+import { ChatSettings } from "@/types/chat";
+import { QueryRequest } from "@/types/api";
+
+/**
+ * Chat settings taken from an App's stored configuration. Only the values
+ * the App actually defines are returned, so they can be spread over the
+ * current settings.
+ */
+export function getAppChatSettings(app: App): Partial<ChatSettings> {
+  const retrieval = app.retrievalSettings || {};
+  const generation = app.generationSettings || {};
+  const settings: Partial<ChatSettings> = {
+    system_prompt: app.systemPrompt || "",
+    vector_stores: app.knowledgeBaseId ? [app.knowledgeBaseId] : [],
+  };
+
+  const fields: Array<[keyof ChatSettings, unknown]> = [
+    ["top_k", retrieval.top_k],
+    ["max_docs_for_context", retrieval.max_docs_for_context],
+    ["similarity_threshold", retrieval.similarity_threshold],
+    ["include_metadata", retrieval.include_metadata],
+    ["query_expansion", retrieval.query_expansion],
+    ["temperature", generation.temperature],
+    ["max_tokens", generation.max_tokens],
+    ["include_sources", generation.include_sources],
+    ["include_confidence", generation.include_confidence],
+  ];
+  for (const [key, value] of fields) {
+    if (value !== undefined && value !== null) {
+      (settings as Record<string, unknown>)[key] = value;
+    }
+  }
+  return settings;
+}
+
+/**
+ * The reverse: App fields for a playground configuration. Apps use a single
+ * knowledge base, so only the first selected one is kept.
+ */
+export function getAppRequestFromQuery(request: QueryRequest): Partial<CreateAppRequest> {
+  return {
+    knowledgeBaseId: request.vector_stores[0] ?? "",
+    ...(request.system_prompt && { systemPrompt: request.system_prompt }),
+    retrievalSettings: {
+      top_k: request.top_k,
+      max_docs_for_context: request.max_docs_for_context,
+      similarity_threshold: request.similarity_threshold,
+      include_metadata: request.include_metadata,
+      query_expansion: request.query_expansion,
+    },
+    generationSettings: {
+      temperature: request.temperature,
+      max_tokens: request.max_tokens,
+      include_sources: request.include_sources,
+      include_confidence: request.include_confidence,
+    },
+  };
+}
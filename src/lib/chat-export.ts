@@ -0,0 +1,261 @@
+import { createElement } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { ChatMessage } from "@/types/chat";
+import { ChatExportFile, ChatExportFormat } from "@/types/session";
+import { formatScore } from "@/lib/api";
+import { getMessageText } from "@/lib/chat-utils";
+import { MessageTree, getThread, toMessageTree } from "@/lib/message-tree";
+
+export const CHAT_EXPORT_VERSION = 1;
+const CHAT_EXPORT_FORMAT = "local-rag-chat";
+
+const ROLE_LABELS: Record<ChatMessage["role"], string> = {
+  user: "User",
+  assistant: "Assistant",
+  system: "System",
+};
+
+function formatTimestamp(timestamp: string) {
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+}
+
+function getImages(message: ChatMessage) {
+  if (typeof message.content === "string") return [];
+  return message.content.flatMap((part) => (part.type === "image" && part.image ? [part.image] : []));
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// ------------------------------------------------------------
+//  Markdown
+// ------------------------------------------------------------
+
+export function toMarkdown(title: string, messages: ChatMessage[]): string {
+  const lines = [`# ${title}`, "", `_Exported ${new Date().toLocaleString()}_`, ""];
+
+  for (const message of messages) {
+    lines.push(`## ${ROLE_LABELS[message.role]} · ${formatTimestamp(message.timestamp)}`, "");
+    lines.push(getMessageText(message) || "_(no text)_", "");
+
+    const images = getImages(message);
+    if (images.length > 0) {
+      lines.push(`_${images.length} image${images.length !== 1 ? "s" : ""} attached_`, "");
+    }
+    if (message.confidence != null) {
+      lines.push(`**Confidence:** ${formatScore(message.confidence)}`, "");
+    }
+    if (message.sources && message.sources.length > 0) {
+      lines.push("**Sources**", "");
+      message.sources.forEach((source, index) => {
+        const name = source.source_name || source.filename;
+        const score = formatScore(source.rerank_score || source.similarity_score);
+        lines.push(`${index + 1}. **${name}** (chunk ${source.chunk_index}, ${score} relevance)`);
+        if (source.location) lines.push(`   ${source.location}`);
+        if (source.content_preview) {
+          lines.push(`   > ${source.content_preview.replace(/\s+/g, " ").trim()}`);
+        }
+      });
+      lines.push("");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ------------------------------------------------------------
+//  JSON
+// ------------------------------------------------------------
+
+export function toJson(title: string, tree: MessageTree): string {
+  const file: ChatExportFile = {
+    format: CHAT_EXPORT_FORMAT,
+    version: CHAT_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    title,
+    messages: tree.messages,
+    currentLeafId: tree.currentLeafId,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Upgrade steps keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0 was a bare ChatMessage[] copied out of localStorage
+  0: (data) => ({
+    format: CHAT_EXPORT_FORMAT,
+    version: 1,
+    exported_at: new Date().toISOString(),
+    title: "Imported chat",
+    messages: data.messages,
+    currentLeafId: null,
+  }),
+};
+
+/**
+ * Parse a JSON export, upgrading older versions. Throws with a readable
+ * message when the file isn't a chat export.
+ */
+export function parseChatExport(text: string): { title: string; tree: MessageTree } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  let file: Record<string, unknown> = Array.isArray(data)
+    ? { version: 0, messages: data }
+    : (data as Record<string, unknown>);
+
+  // Only bare arrays (version 0) predate the format marker
+  if (
+    typeof file !== "object" ||
+    file === null ||
+    typeof file.version !== "number" ||
+    (!Array.isArray(data) && file.format !== CHAT_EXPORT_FORMAT)
+  ) {
+    throw new Error("The file is not a chat export");
+  }
+  if (file.version > CHAT_EXPORT_VERSION) {
+    throw new Error(`This export was made by a newer version (v${file.version}) and can't be read`);
+  }
+  while ((file.version as number) < CHAT_EXPORT_VERSION) {
+    const migrate = MIGRATIONS[file.version as number];
+    if (!migrate) throw new Error(`Unsupported export version v${file.version}`);
+    file = migrate(file);
+  }
+
+  const { title, messages, currentLeafId } = file as unknown as ChatExportFile;
+  const valid =
+    Array.isArray(messages) &&
+    messages.every((m) => m && Object.keys(ROLE_LABELS).includes(m.role) && m.content !== undefined);
+  if (!valid) throw new Error("The export contains malformed messages");
+
+  return {
+    title: typeof title === "string" && title.trim() ? title : "Imported chat",
+    tree: toMessageTree(messages, currentLeafId),
+  };
+}
+
+// ------------------------------------------------------------
+//  HTML
+// ------------------------------------------------------------
+
+const HTML_STYLES = `
+body { font-family: system-ui, -apple-system, sans-serif; max-width: 800px; margin: 2rem auto; padding: 0 1rem; color: #171717; line-height: 1.6; }
+h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+.meta { color: #737373; font-size: 0.875rem; }
+.message { border: 1px solid #e5e5e5; border-radius: 0.5rem; padding: 1rem; margin: 1rem 0; }
+.message.user { background: #fafafa; }
+.role { font-weight: 600; font-size: 0.875rem; margin-bottom: 0.5rem; }
+.role span { font-weight: 400; color: #737373; margin-left: 0.5rem; }
+pre { background: #f5f5f5; padding: 0.75rem; border-radius: 0.375rem; overflow-x: auto; }
+code { font-family: ui-monospace, monospace; font-size: 0.85em; }
+table { border-collapse: collapse; } th, td { border: 1px solid #e5e5e5; padding: 0.25rem 0.5rem; }
+img { max-width: 100%; max-height: 300px; border-radius: 0.375rem; }
+.sources { margin-top: 0.75rem; font-size: 0.875rem; }
+.sources li { margin-bottom: 0.5rem; }
+.preview { color: #525252; }
+`;
+
+export async function toHtml(title: string, messages: ChatMessage[]): Promise<string> {
+  // Loaded on demand; only exports need the server renderer
+  const { renderToStaticMarkup } = await import("react-dom/server");
+
+  const body = messages
+    .map((message) => {
+      const text = renderToStaticMarkup(
+        createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, getMessageText(message))
+      );
+      const images = getImages(message)
+        // Both halves come from stored messages, so escape them like any other content
+        .map(
+          (image) =>
+            `<img src="data:${escapeHtml(image.mime_type)};base64,${escapeHtml(image.data)}" alt="Attached image" />`
+        )
+        .join("");
+      const confidence =
+        message.confidence != null
+          ? `<p class="meta">Confidence: ${formatScore(message.confidence)}</p>`
+          : "";
+      const sources =
+        message.sources && message.sources.length > 0
+          ? `<details class="sources"><summary>Sources (${message.sources.length})</summary><ol>${message.sources
+              .map(
+                (source) =>
+                  `<li><strong>${escapeHtml(source.source_name || source.filename)}</strong> ` +
+                  `<span class="meta">chunk ${source.chunk_index}, ${formatScore(source.rerank_score || source.similarity_score)} relevance</span>` +
+                  (source.location ? `<div class="meta">${escapeHtml(source.location)}</div>` : "") +
+                  `<div class="preview">${escapeHtml(source.content_preview)}</div></li>`
+              )
+              .join("")}</ol></details>`
+          : "";
+
+      return `<section class="message ${escapeHtml(message.role)}">
+<div class="role">${ROLE_LABELS[message.role]}<span>${escapeHtml(formatTimestamp(message.timestamp))}</span></div>
+${text}${images}${confidence}${sources}
+</section>`;
+    })
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Exported ${escapeHtml(new Date().toLocaleString())}</p>
+${body}
+</body>
+</html>
+`;
+}
+
+// ------------------------------------------------------------
+//  Download helpers
+// ------------------------------------------------------------
+
+const FILE_TYPES: Record<ChatExportFormat, { extension: string; mime: string }> = {
+  markdown: { extension: "md", mime: "text/markdown" },
+  json: { extension: "json", mime: "application/json" },
+  html: { extension: "html", mime: "text/html" },
+};
+
+function toFilename(title: string, extension: string) {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60);
+  return `${slug || "chat"}.${extension}`;
+}
+
+/** Export the visible thread (Markdown/HTML) or the whole tree (JSON) and download it */
+export async function exportChat(format: ChatExportFormat, title: string, tree: MessageTree) {
+  const thread = getThread(tree);
+  const content =
+    format === "json"
+      ? toJson(title, tree)
+      : format === "html"
+        ? await toHtml(title, thread)
+        : toMarkdown(title, thread);
+
+  const { extension, mime } = FILE_TYPES[format];
+  const url = URL.createObjectURL(new Blob([content], { type: `${mime};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = toFilename(title, extension);
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,39 @@
+/**
+ * Helpers shared by the chat history search API and the result highlighting.
+ * A message matches when it contains every whitespace-separated term,
+ * case-insensitively.
+ */
+
+export const MIN_SEARCH_LENGTH = 2;
+
+export function splitSearchTerms(query: string): string[] {
+  return Array.from(new Set(query.toLowerCase().split(/\s+/).filter(Boolean)));
+}
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export function matchesAllTerms(text: string, terms: string[]): boolean {
+  const lower = text.toLowerCase();
+  return terms.every((term) => lower.includes(term));
+}
+
+/** Excerpt of `text` centred on the first occurrence of any term */
+export function buildSnippet(text: string, terms: string[], radius = 80): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lower = flat.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - radius);
+  const end = Math.min(flat.length, first + radius * 2);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/** Home page link that opens a session and scrolls to one of its messages */
+export function getMessageHref(sessionId: string, messageId?: string | null): string {
+  const params = new URLSearchParams({ session: sessionId });
+  if (messageId) params.set("message", messageId);
+  return `/?${params.toString()}`;
+}
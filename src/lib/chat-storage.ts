@@ -0,0 +1,290 @@
+import { ChatMessage, ChatSettings } from "@/types/chat";
+import { MessageTree, parseStoredTree, toMessageTree } from "@/lib/message-tree";
+import { base64ToBlob, blobToBase64 } from "@/lib/image-preprocess";
+
+/**
+ * Browser copy of chat sessions in IndexedDB. Messages are stored one record
+ * each and their images as Blobs, so attachments don't count against the
+ * ~5MB localStorage quota and aren't re-serialized on every save.
+ */
+
+const DB_NAME = "local-rag-chat";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const MESSAGES = "messages";
+const IMAGES = "images";
+
+// Keys used before IndexedDB; moved over once and then removed
+const LEGACY_PREFIX = {
+  history: "chatHistory:",
+  settings: "chatSettings:",
+  app: "chatApp:",
+};
+
+interface SessionRecord {
+  id: string;
+  currentLeafId: string | null;
+  settings: ChatSettings | null;
+  appId: string | null;
+  updatedAt: string;
+}
+
+// Image parts point at a record in the images store instead of carrying base64
+type StoredPart =
+  | { type: "text"; text?: string }
+  | { type: "image"; text?: string; image?: { ref: string; mime_type: string } };
+
+interface MessageRecord {
+  sessionId: string;
+  id: string;
+  /** Insertion order within the tree */
+  position: number;
+  message: Omit<ChatMessage, "content"> & { content: string | StoredPart[] };
+}
+
+interface ImageRecord {
+  key: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+export interface StoredChat {
+  tree: MessageTree;
+  settings: ChatSettings | null;
+  appId: string | null;
+}
+
+export function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "QuotaExceededError";
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Quota errors abort the transaction, so they surface here rather than on a request
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Storage transaction was aborted"));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      db.createObjectStore(SESSIONS, { keyPath: "id" });
+      db.createObjectStore(MESSAGES, { keyPath: ["sessionId", "id"] })
+        .createIndex("sessionId", "sessionId");
+      db.createObjectStore(IMAGES, { keyPath: "key" }).createIndex("sessionId", "sessionId");
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version in another tab upgrade instead of blocking it
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error("Chat storage is open in an outdated tab"));
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDatabase(): Promise<IDBDatabase> {
+  dbPromise ??= openDatabase().then(async (db) => {
+    await migrateLegacyHistory(db);
+    return db;
+  });
+  // A failed open is retried on the next call
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+const imageKey = (sessionId: string, messageId: string, index: number) =>
+  `${sessionId}/${messageId}/${index}`;
+
+async function readSession(store: IDBObjectStore, id: string): Promise<SessionRecord> {
+  const existing = await promisify<SessionRecord | undefined>(store.get(id));
+  return existing ?? { id, currentLeafId: null, settings: null, appId: null, updatedAt: "" };
+}
+
+async function writeTree(db: IDBDatabase, sessionId: string, tree: MessageTree) {
+  const tx = db.transaction([SESSIONS, MESSAGES, IMAGES], "readwrite");
+  const done = transactionDone(tx);
+  const sessions = tx.objectStore(SESSIONS);
+  const messages = tx.objectStore(MESSAGES);
+  const images = tx.objectStore(IMAGES);
+
+  const storedImages = new Set(
+    (await promisify(images.index("sessionId").getAllKeys(sessionId))).map(String)
+  );
+  const referenced = new Set<string>();
+
+  // Branches only ever grow, but a cleared or imported tree replaces the lot
+  messages.delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+  tree.messages.forEach((message, position) => {
+    const id = message.id!;
+    const content =
+      typeof message.content === "string"
+        ? message.content
+        : message.content.map((part, index): StoredPart => {
+            if (part.type !== "image" || !part.image) return { type: "text", text: part.text };
+            const key = imageKey(sessionId, id, index);
+            referenced.add(key);
+            // A message's attachments never change, so each image is written once
+            if (!storedImages.has(key)) {
+              const record: ImageRecord = {
+                key,
+                sessionId,
+                blob: base64ToBlob(part.image.data, part.image.mime_type),
+              };
+              images.put(record);
+            }
+            return { type: "image", image: { ref: key, mime_type: part.image.mime_type } };
+          });
+    const record: MessageRecord = { sessionId, id, position, message: { ...message, content } };
+    messages.put(record);
+  });
+  for (const key of storedImages) {
+    if (!referenced.has(key)) images.delete(key);
+  }
+
+  const session = await readSession(sessions, sessionId);
+  sessions.put({
+    ...session,
+    currentLeafId: tree.currentLeafId,
+    updatedAt: new Date().toISOString(),
+  });
+  await done;
+}
+
+async function writeMeta(
+  db: IDBDatabase,
+  sessionId: string,
+  meta: Pick<SessionRecord, "settings" | "appId">
+) {
+  const tx = db.transaction(SESSIONS, "readwrite");
+  const done = transactionDone(tx);
+  const sessions = tx.objectStore(SESSIONS);
+  const session = await readSession(sessions, sessionId);
+  sessions.put({ ...session, ...meta, updatedAt: new Date().toISOString() });
+  await done;
+}
+
+function readLegacyChat(sessionId: string): StoredChat | null {
+  const history = localStorage.getItem(LEGACY_PREFIX.history + sessionId);
+  if (!history) return null;
+  let settings: ChatSettings | null = null;
+  try {
+    settings = JSON.parse(localStorage.getItem(LEGACY_PREFIX.settings + sessionId) || "null");
+  } catch {
+    // Unreadable settings fall back to the current ones
+  }
+  return {
+    tree: parseStoredTree(history),
+    settings,
+    appId: localStorage.getItem(LEGACY_PREFIX.app + sessionId),
+  };
+}
+
+/**
+ * Move `chatHistory:*` entries out of localStorage. Each session's keys are
+ * only removed once it has been written, so a failure leaves it to be
+ * retried on the next page load.
+ */
+async function migrateLegacyHistory(db: IDBDatabase) {
+  const sessionIds = Object.keys(localStorage)
+    .filter((key) => key.startsWith(LEGACY_PREFIX.history))
+    .map((key) => key.slice(LEGACY_PREFIX.history.length));
+
+  for (const sessionId of sessionIds) {
+    try {
+      const legacy = readLegacyChat(sessionId);
+      if (legacy) {
+        await writeTree(db, sessionId, legacy.tree);
+        await writeMeta(db, sessionId, { settings: legacy.settings, appId: legacy.appId });
+      }
+      Object.values(LEGACY_PREFIX).forEach((prefix) => localStorage.removeItem(prefix + sessionId));
+    } catch (error) {
+      console.error(`Failed to migrate chat history for session ${sessionId}:`, error);
+    }
+  }
+}
+
+/** The browser copy of a session, or null when it only exists on the server */
+export async function loadChat(sessionId: string): Promise<StoredChat | null> {
+  let db: IDBDatabase;
+  try {
+    db = await getDatabase();
+  } catch (error) {
+    // Without IndexedDB, a session that never migrated is still readable
+    console.error("Failed to open chat storage:", error);
+    return readLegacyChat(sessionId);
+  }
+
+  const tx = db.transaction([SESSIONS, MESSAGES, IMAGES], "readonly");
+  const [session, records, imageRecords] = await Promise.all([
+    promisify<SessionRecord | undefined>(tx.objectStore(SESSIONS).get(sessionId)),
+    promisify<MessageRecord[]>(tx.objectStore(MESSAGES).index("sessionId").getAll(sessionId)),
+    promisify<ImageRecord[]>(tx.objectStore(IMAGES).index("sessionId").getAll(sessionId)),
+  ]);
+  if (!session || records.length === 0) return readLegacyChat(sessionId);
+
+  const blobs = new Map(imageRecords.map((record) => [record.key, record.blob]));
+  const messages = await Promise.all(
+    records
+      .sort((a, b) => a.position - b.position)
+      .map(async ({ message }): Promise<ChatMessage> => {
+        if (typeof message.content === "string") return { ...message, content: message.content };
+        const content = await Promise.all(
+          message.content.map(async (part) => {
+            if (part.type !== "image" || !part.image) return { type: part.type, text: part.text };
+            // An image lost to storage eviction leaves an empty attachment rather than failing the load
+            const blob = blobs.get(part.image.ref);
+            const data = blob ? await blobToBase64(blob) : "";
+            return { type: part.type, image: { data, mime_type: part.image.mime_type } };
+          })
+        );
+        return { ...message, content };
+      })
+  );
+
+  return {
+    tree: toMessageTree(messages, session.currentLeafId),
+    settings: session.settings,
+    appId: session.appId,
+  };
+}
+
+export async function saveChatTree(sessionId: string, tree: MessageTree): Promise<void> {
+  await writeTree(await getDatabase(), sessionId, tree);
+}
+
+export async function saveChatMeta(
+  sessionId: string,
+  meta: { settings: ChatSettings; appId: string | null }
+): Promise<void> {
+  await writeMeta(await getDatabase(), sessionId, meta);
+}
+
+export async function deleteChat(sessionId: string): Promise<void> {
+  Object.values(LEGACY_PREFIX).forEach((prefix) => localStorage.removeItem(prefix + sessionId));
+  const db = await getDatabase();
+  const tx = db.transaction([SESSIONS, MESSAGES, IMAGES], "readwrite");
+  const done = transactionDone(tx);
+  tx.objectStore(SESSIONS).delete(sessionId);
+  tx.objectStore(MESSAGES).delete(IDBKeyRange.bound([sessionId], [sessionId, []]));
+  const images = tx.objectStore(IMAGES);
+  const keys = await promisify(images.index("sessionId").getAllKeys(sessionId));
+  keys.forEach((key) => images.delete(key));
+  await done;
+}
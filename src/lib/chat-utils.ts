@@ -0,0 +1,25 @@
+import { ChatMessage } from "@/types/chat";
+
+/** Fallback title for sessions that have no user text yet */
+export const DEFAULT_SESSION_TITLE = "New chat";
+
+/**
+ * Flatten a chat message into plain text, dropping any image parts.
+ */
+export function getMessageText(message: Pick<ChatMessage, "content">): string {
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * Build a short session title from the first user message.
+ */
+export function deriveSessionTitle(messages: ChatMessage[], maxLength = 60): string {
+  const firstUser = messages.find((m) => m.role === "user");
+  const text = firstUser ? getMessageText(firstUser).replace(/\s+/g, " ").trim() : "";
+  if (!text) return DEFAULT_SESSION_TITLE;
+  return text.length > maxLength ? `${text.substring(0, maxLength).trimEnd()}...` : text;
+}
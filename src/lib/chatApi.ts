@@ -1,11 +1,154 @@
 import { ChatRequest, ChatStreamChunk } from "@/types/chat";
+import { QueryUsage } from "@/types/api";
+import { readServerSentEvents, ServerSentEvent } from "@/lib/sse";
 
 const API_BASE_URL = "http://localhost:8000";
 
+// Error raised for malformed or error events on the stream
+class ChatStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ChatStreamError";
+  }
+}
+
+function parseJson(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new ChatStreamError(`Malformed chat stream event: ${data.slice(0, 200)}`);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toUsage(value: unknown): QueryUsage | null {
+  if (!isRecord(value) || typeof value.total_tokens !== "number") return null;
+  return {
+    total_tokens: value.total_tokens,
+    cost_usd: typeof value.cost_usd === "number" ? value.cost_usd : 0,
+  };
+}
+
+// Confidence arrives as a bare number or as { confidence } / { confidence_score }
+function toConfidence(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (!isRecord(value)) return null;
+  const score = value.confidence_score ?? value.confidence;
+  return typeof score === "number" ? score : null;
+}
+
+// Pull a readable message out of whatever shape the backend used for an error
+function errorMessage(data: string): string {
+  try {
+    const payload = JSON.parse(data);
+    if (typeof payload === "string") return payload;
+    if (isRecord(payload)) {
+      const message = payload.message ?? payload.detail ?? payload.error;
+      if (typeof message === "string") return message;
+    }
+  } catch {
+    // Plain-text error body
+  }
+  return data || "The chat stream reported an error";
+}
+
+/**
+ * Translate one SSE event into typed chunks.
+ * Returns null when the stream is finished.
+ */
+function toChunks(event: ServerSentEvent): ChatStreamChunk[] | null {
+  switch (event.event) {
+    case "message": {
+      if (event.data.trim() === "[DONE]") return null;
+
+      const payload = parseJson(event.data);
+      if (!isRecord(payload)) {
+        throw new ChatStreamError("Unexpected chat stream payload");
+      }
+      if (typeof payload.error === "string") {
+        throw new ChatStreamError(payload.error);
+      }
+
+      // Unnamed events carry content plus optional sources, usage and confidence together
+      const chunks: ChatStreamChunk[] = [];
+      if (Array.isArray(payload.sources)) {
+        chunks.push({ type: "sources", sources: payload.sources });
+      }
+      const usage = toUsage(payload.usage);
+      if (usage) chunks.push({ type: "usage", usage });
+      const confidence = toConfidence(payload);
+      if (confidence !== null) chunks.push({ type: "confidence", confidence });
+      const content = typeof payload.content === "string" ? payload.content : "";
+      const isFinal = payload.is_final === true;
+      if (content || isFinal) {
+        chunks.push({ type: "content", content, is_final: isFinal });
+      }
+      return chunks;
+    }
+
+    case "sources": {
+      const payload = parseJson(event.data);
+      const sources = Array.isArray(payload)
+        ? payload
+        : isRecord(payload) && Array.isArray(payload.sources)
+          ? payload.sources
+          : null;
+      if (!sources) throw new ChatStreamError("Malformed sources event");
+      return [{ type: "sources", sources }];
+    }
+
+    case "usage": {
+      const payload = parseJson(event.data);
+      const usage = toUsage(isRecord(payload) && "usage" in payload ? payload.usage : payload);
+      if (!usage) throw new ChatStreamError("Malformed usage event");
+      return [{ type: "usage", usage }];
+    }
+
+    case "confidence": {
+      const confidence = toConfidence(parseJson(event.data));
+      if (confidence === null) throw new ChatStreamError("Malformed confidence event");
+      return [{ type: "confidence", confidence }];
+    }
+
+    case "reasoning": {
+      // Reasoning may arrive as JSON ({ content }) or as plain text
+      let content = event.data;
+      try {
+        const payload = JSON.parse(event.data);
+        if (typeof payload === "string") content = payload;
+        else if (isRecord(payload) && typeof payload.content === "string") content = payload.content;
+      } catch {
+        // Plain-text reasoning
+      }
+      return [{ type: "reasoning", content }];
+    }
+
+    case "error":
+      throw new ChatStreamError(errorMessage(event.data));
+
+    case "done":
+      return null;
+
+    default:
+      // Unknown event names are ignored so the backend can add new ones
+      return [];
+  }
+}
+
+/**
+ * Stream a chat completion over SSE.
+ *
+ * Aborting `signal` stops the request quietly: `onError` is not called, and
+ * whatever was already passed to `onChunk` is left for the caller to keep.
+ */
 export async function streamChat(
   request: ChatRequest,
   onChunk: (chunk: ChatStreamChunk) => void,
-  onError: (err: Error) => void
+  onError: (err: Error) => void,
+  signal?: AbortSignal
 ) {
   try {
     const resp = await fetch(`${API_BASE_URL}/api/chat`, {
@@ -15,6 +158,7 @@ export async function streamChat(
         Accept: "text/event-stream",
       },
       body: JSON.stringify(request),
+      signal,
     });
 
     if (!resp.ok) {
@@ -28,44 +172,20 @@ export async function streamChat(
       return;
     }
 
-    const reader = resp.body.getReader();
-    const decoder = new TextDecoder();
-    let buffer = "";
-
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-      
-      buffer += decoder.decode(value, { stream: true });
-
-      // SSE events are separated by double new‑lines
-      const parts = buffer.split("\n\n");
-      buffer = parts.pop() ?? "";
-
-      for (const part of parts) {
-        const trimmedPart = part.trim();
-        if (!trimmedPart) continue;
-        
-        // Parse SSE format: "data: {...}"
-        const match = trimmedPart.match(/^data:\s*(.*)$/m);
-        if (!match) continue;
-        
-        const dataStr = match[1].trim();
-        if (dataStr === "[DONE]") {
-          // Signal that streaming is complete
-          return;
-        }
-        
-        try {
-          const data: ChatStreamChunk = JSON.parse(dataStr);
-          onChunk(data);
-        } catch (parseErr) {
-          console.warn("Failed to parse SSE chunk:", dataStr, parseErr);
-          // Continue processing other chunks instead of failing completely
-        }
+    let finished = false;
+    await readServerSentEvents(resp.body, (event) => {
+      const chunks = toChunks(event);
+      if (chunks === null) {
+        finished = true;
+        return false;
       }
-    }
+      chunks.forEach(onChunk);
+    });
+
+    if (finished) onChunk({ type: "done" });
   } catch (error) {
+    // A user-initiated stop is not an error
+    if (signal?.aborted) return;
     onError(error instanceof Error ? error : new Error("Unknown error occurred"));
   }
 }
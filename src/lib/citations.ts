@@ -0,0 +1,79 @@
+/**
+ * Inline citation support for answers that reference retrieved sources as
+ * `[1]`, `[2, 3]` and so on. `remarkCitations` rewrites those markers into
+ * `#cite-n` links which the markdown `a` renderer turns into citation chips.
+ */
+
+export const CITATION_HREF_PREFIX = "#cite-";
+
+// Minimal mdast shapes; only the fields the plugin touches
+interface MdNode {
+  type: string;
+  value?: string;
+  url?: string;
+  children?: MdNode[];
+}
+
+// `[1]` or `[1, 2]`, but not `[1](...)` which is already a link
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+// Nodes whose text must be left alone
+const SKIPPED_PARENTS = new Set(["link", "linkReference", "inlineCode", "code"]);
+
+/** Source number (1-based) for a citation link, or null for ordinary links */
+export function parseCitationHref(href: string | undefined): number | null {
+  if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+  const n = parseInt(href.slice(CITATION_HREF_PREFIX.length), 10);
+  return Number.isNaN(n) ? null : n;
+}
+
+function splitCitations(value: string, count: number): MdNode[] | null {
+  const nodes: MdNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of value.matchAll(CITATION_PATTERN)) {
+    const numbers = match[1].split(",").map((n) => parseInt(n.trim(), 10));
+    // Markers pointing past the source list are left as plain text
+    if (numbers.some((n) => n < 1 || n > count)) continue;
+
+    if (match.index! > lastIndex) {
+      nodes.push({ type: "text", value: value.slice(lastIndex, match.index) });
+    }
+    for (const n of numbers) {
+      nodes.push({
+        type: "link",
+        url: `${CITATION_HREF_PREFIX}${n}`,
+        children: [{ type: "text", value: String(n) }],
+      });
+    }
+    lastIndex = match.index! + match[0].length;
+  }
+
+  if (nodes.length === 0) return null;
+  if (lastIndex < value.length) {
+    nodes.push({ type: "text", value: value.slice(lastIndex) });
+  }
+  return nodes;
+}
+
+function transform(node: MdNode, count: number) {
+  if (!node.children || SKIPPED_PARENTS.has(node.type)) return;
+
+  node.children = node.children.flatMap((child) => {
+    if (child.type === "text" && child.value) {
+      return splitCitations(child.value, count) ?? [child];
+    }
+    transform(child, count);
+    return [child];
+  });
+}
+
+/**
+ * Remark plugin turning `[n]` markers into citation links. `count` is the
+ * number of sources available; markers outside 1..count are not linked.
+ */
+export function remarkCitations({ count }: { count: number }) {
+  return (tree: MdNode) => {
+    if (count > 0) transform(tree, count);
+  };
+}
@@ -0,0 +1,117 @@
+import { ChatMessage } from "@/types/chat";
+import { getMessageText } from "@/lib/chat-utils";
+import { MAX_TOTAL_TOKENS } from "@/constants/tokens";
+
+/**
+ * Client-side context window estimates. The backend tokenizer isn't
+ * available here, so text is approximated from its length; the numbers are
+ * meant for warnings and trimming, not for billing.
+ */
+
+// English prose and code both land close to four characters per token
+const CHARS_PER_TOKEN = 4;
+// Role markers and separators the chat template wraps around each message
+const MESSAGE_OVERHEAD_TOKENS = 4;
+// A downscaled attachment; vision models bill images in fixed-size tiles
+export const TOKENS_PER_IMAGE = 1_000;
+// Kept free for retrieved documents and for estimation error
+const HEADROOM_RATIO = 0.1;
+
+export interface ContextEstimate {
+  /** System prompt and message text */
+  history: number;
+  images: number;
+  /** Reserved for the reply (`max_tokens`) */
+  completion: number;
+  total: number;
+  limit: number;
+}
+
+export interface ContextPlan {
+  /** Messages that fit in the window, oldest first */
+  kept: ChatMessage[];
+  /** Older messages left out of the request */
+  dropped: ChatMessage[];
+  /** Estimate for the kept messages */
+  estimate: ContextEstimate;
+}
+
+interface ContextOptions {
+  systemPrompt?: string;
+  maxTokens: number;
+  limit?: number;
+}
+
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+function countImages(message: ChatMessage): number {
+  return Array.isArray(message.content)
+    ? message.content.filter((part) => part.type === "image").length
+    : 0;
+}
+
+function estimateMessage(message: ChatMessage) {
+  return {
+    text: estimateTextTokens(getMessageText(message)) + MESSAGE_OVERHEAD_TOKENS,
+    images: countImages(message) * TOKENS_PER_IMAGE,
+  };
+}
+
+// A turn is a user message and the replies that follow it; trimming never splits one
+function groupTurns(messages: ChatMessage[]): ChatMessage[][] {
+  const turns: ChatMessage[][] = [];
+  for (const message of messages) {
+    if (message.role === "user" || turns.length === 0) turns.push([message]);
+    else turns[turns.length - 1].push(message);
+  }
+  return turns;
+}
+
+/**
+ * Fit a thread into the context window by dropping its oldest turns. The
+ * newest turn is always kept, so `estimate.total` can still exceed the
+ * limit when a single question is too large.
+ */
+export function planContext(messages: ChatMessage[], options: ContextOptions): ContextPlan {
+  const limit = options.limit ?? MAX_TOTAL_TOKENS;
+  const system = options.systemPrompt ? estimateTextTokens(options.systemPrompt) : 0;
+  const budget = limit * (1 - HEADROOM_RATIO) - options.maxTokens - system;
+
+  const turns = groupTurns(messages);
+  let keptFrom = turns.length;
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = turns[i].reduce((sum, m) => {
+      const { text, images } = estimateMessage(m);
+      return sum + text + images;
+    }, 0);
+    if (i < turns.length - 1 && used + cost > budget) break;
+    used += cost;
+    keptFrom = i;
+  }
+
+  const kept = turns.slice(keptFrom).flat();
+  const dropped = turns.slice(0, keptFrom).flat();
+
+  let history = system;
+  let images = 0;
+  for (const message of kept) {
+    const estimate = estimateMessage(message);
+    history += estimate.text;
+    images += estimate.images;
+  }
+
+  return {
+    kept,
+    dropped,
+    estimate: {
+      history,
+      images,
+      completion: options.maxTokens,
+      total: history + images + options.maxTokens,
+      limit,
+    },
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Collects items and hands them over at most once per animation frame, so a
+ * burst of stream chunks turns into a single state update. `flush` delivers
+ * whatever is queued straight away, e.g. when the stream ends.
+ */
+export function createFrameBatcher<T>(apply: (items: T[]) => void) {
+  let queue: T[] = [];
+  let frame: number | null = null;
+
+  const flush = () => {
+    if (frame !== null) {
+      cancelAnimationFrame(frame);
+      frame = null;
+    }
+    if (queue.length === 0) return;
+    const items = queue;
+    queue = [];
+    apply(items);
+  };
+
+  const push = (item: T) => {
+    queue.push(item);
+    frame ??= requestAnimationFrame(flush);
+  };
+
+  return { push, flush };
+}
@@ -0,0 +1,174 @@
+export type ImageOutputFormat = "image/jpeg" | "image/webp";
+
+export interface ImagePreprocessOptions {
+  /** Longest side in pixels after downscaling */
+  maxDimension: number;
+  format: ImageOutputFormat;
+  /** Encoder quality between 0 and 1 */
+  quality: number;
+  /** Hard limit for the encoded image */
+  maxBytes: number;
+}
+
+export const DEFAULT_IMAGE_OPTIONS: ImagePreprocessOptions = {
+  maxDimension: 2048,
+  format: "image/jpeg",
+  quality: 0.85,
+  maxBytes: 4 * 1024 * 1024,
+};
+
+/** Files above these limits are rejected before decoding */
+export const MAX_IMAGE_FILE_BYTES = 20 * 1024 * 1024;
+export const MAX_IMAGE_MEGAPIXELS = 33;
+export const MAX_IMAGES = 5;
+
+// Quality and size steps tried in turn when the first encode is over maxBytes
+const MIN_QUALITY = 0.5;
+const QUALITY_STEP = 0.1;
+const DIMENSION_STEP = 0.75;
+const MIN_DIMENSION = 256;
+
+export interface ProcessedImage {
+  data: string;            // base64 string without data URI prefix
+  mime_type: string;
+  width: number;
+  height: number;
+  originalBytes: number;
+  bytes: number;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Decoded size of a base64 payload */
+export function base64Bytes(base64: string): number {
+  const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
+}
+
+// createImageBitmap applies the EXIF orientation itself; <img> does the same
+// in every current browser, so it serves as the fallback decoder
+async function decodeImage(file: Blob): Promise<CanvasImageSource & { width: number; height: number }> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // Fall through to <img>, which knows a few more formats in some browsers
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } catch {
+    throw new Error("Unable to load the selected image.");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function encodeCanvas(canvas: HTMLCanvasElement, format: ImageOutputFormat, quality: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))),
+      format,
+      quality
+    );
+  });
+}
+
+export function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1]);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Downscale, orient and re-encode an image so it fits `options.maxBytes`.
+ * Quality is lowered first, then the dimensions; throws when even the
+ * smallest attempt is over the limit.
+ */
+export async function preprocessImage(
+  file: Blob,
+  options: ImagePreprocessOptions = DEFAULT_IMAGE_OPTIONS
+): Promise<ProcessedImage> {
+  if (file.size > MAX_IMAGE_FILE_BYTES) {
+    throw new Error(`File exceeds the ${formatBytes(MAX_IMAGE_FILE_BYTES)} limit.`);
+  }
+
+  const source = await decodeImage(file);
+
+  try {
+    const megapixels = (source.width * source.height) / 1_000_000;
+    if (megapixels > MAX_IMAGE_MEGAPIXELS) {
+      throw new Error(
+        `Image resolution exceeds ${MAX_IMAGE_MEGAPIXELS} MP (${megapixels.toFixed(1)} MP). Please use a smaller image.`
+      );
+    }
+
+    const canvas = document.createElement("canvas");
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Image processing is not supported in this browser");
+
+    let maxDimension = Math.min(options.maxDimension, Math.max(source.width, source.height));
+    let quality = options.quality;
+
+    while (true) {
+      const scale = maxDimension / Math.max(source.width, source.height);
+      canvas.width = Math.max(1, Math.round(source.width * scale));
+      canvas.height = Math.max(1, Math.round(source.height * scale));
+
+      // JPEG has no alpha; paint transparent areas white instead of black
+      context.fillStyle = "#ffffff";
+      context.fillRect(0, 0, canvas.width, canvas.height);
+      context.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+      const blob = await encodeCanvas(canvas, options.format, quality);
+      if (blob.size <= options.maxBytes) {
+        return {
+          data: await blobToBase64(blob),
+          // Browsers without a WebP encoder fall back to PNG
+          mime_type: blob.type || options.format,
+          width: canvas.width,
+          height: canvas.height,
+          originalBytes: file.size,
+          bytes: blob.size,
+        };
+      }
+
+      if (quality - QUALITY_STEP >= MIN_QUALITY) {
+        quality -= QUALITY_STEP;
+      } else if (maxDimension * DIMENSION_STEP >= MIN_DIMENSION) {
+        maxDimension = Math.round(maxDimension * DIMENSION_STEP);
+      } else {
+        throw new Error(`Image can't be compressed below ${formatBytes(options.maxBytes)}.`);
+      }
+    }
+  } finally {
+    if ("close" in source && typeof source.close === "function") source.close();
+  }
+}
+
+/** Image files from a paste or drop, ignoring text and other file types */
+export function getImageFiles(items: DataTransferItemList | ArrayLike<File>): File[] {
+  const files = Array.from(items as ArrayLike<DataTransferItem | File>).map((item) =>
+    item instanceof File ? item : item.kind === "file" ? item.getAsFile() : null
+  );
+  return files.filter((file): file is File => !!file && file.type.startsWith("image/"));
+}
@@ -0,0 +1,44 @@
+import { ChatMention } from "@/types/chat";
+
+export function getMentionKey(mention: ChatMention): string {
+  return mention.type === "store" ? `store:${mention.store_id}` : `document:${mention.document_id}`;
+}
+
+export function getMentionLabel(mention: ChatMention): string {
+  return mention.type === "store" ? mention.name : mention.filename;
+}
+
+/**
+ * A question can mention any number of knowledge bases, or one document on its
+ * own: `metadata_filters` is a plain key-value match, so it can't express
+ * "this document or that store".
+ */
+export function canAddMention(mentions: ChatMention[], mention: ChatMention): boolean {
+  if (mentions.some((m) => m.type === "document")) return false;
+  return mention.type === "store" || mentions.length === 0;
+}
+
+/**
+ * Retrieval scope for a question with @-mentions, merged over the session's
+ * own metadata filters. Every mentioned store is searched; a lone document
+ * mention narrows its store to that document.
+ */
+export function getMentionScope(
+  mentions: ChatMention[],
+  sessionFilters: Record<string, unknown> = {}
+): {
+  vector_stores: string[];
+  metadata_filters: Record<string, unknown>;
+} {
+  const vectorStores = Array.from(new Set(mentions.map((m) => m.store_id)));
+  const [only] = mentions;
+
+  // Questions from before the one-document rule mixed mentions; search their stores whole
+  if (mentions.length !== 1 || only.type !== "document") {
+    return { vector_stores: vectorStores, metadata_filters: sessionFilters };
+  }
+  return {
+    vector_stores: vectorStores,
+    metadata_filters: { ...sessionFilters, document_id: only.document_id },
+  };
+}
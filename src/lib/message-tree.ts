@@ -0,0 +1,120 @@
+import { v4 as uuidv4 } from "uuid";
+import { ChatMessage } from "@/types/chat";
+
+/**
+ * A conversation stored as a tree so edits and regenerations branch instead
+ * of overwriting later turns. Every node lives in `messages` (insertion
+ * order) and points at its parent through `parent_id`; the visible thread is
+ * the path from the root to `currentLeafId`.
+ */
+export interface MessageTree {
+  messages: ChatMessage[];
+  currentLeafId: string | null;
+}
+
+export const EMPTY_TREE: MessageTree = { messages: [], currentLeafId: null };
+
+export function createMessageId(): string {
+  return uuidv4();
+}
+
+/**
+ * Build a tree from a stored message list. Lists saved before branching
+ * existed have no ids, so they are chained in order into a single branch.
+ */
+export function toMessageTree(
+  messages: ChatMessage[],
+  currentLeafId?: string | null
+): MessageTree {
+  if (messages.length === 0) return EMPTY_TREE;
+
+  if (messages.every((m) => m.id)) {
+    const leafExists = messages.some((m) => m.id === currentLeafId);
+    return {
+      messages,
+      currentLeafId: leafExists ? currentLeafId! : messages[messages.length - 1].id!,
+    };
+  }
+
+  let parentId: string | null = null;
+  const chained = messages.map((message) => {
+    const node: ChatMessage = { ...message, id: createMessageId(), parent_id: parentId };
+    parentId = node.id!;
+    return node;
+  });
+  return { messages: chained, currentLeafId: parentId };
+}
+
+/** Parse a localStorage payload, accepting both the legacy array and the tree shape */
+export function parseStoredTree(raw: string): MessageTree {
+  const parsed = JSON.parse(raw);
+  if (Array.isArray(parsed)) return toMessageTree(parsed);
+  return toMessageTree(parsed.messages || [], parsed.currentLeafId);
+}
+
+export function findMessage(tree: MessageTree, id: string | null | undefined) {
+  if (!id) return undefined;
+  return tree.messages.find((m) => m.id === id);
+}
+
+/** The visible conversation: root to current leaf */
+export function getThread(tree: MessageTree): ChatMessage[] {
+  const byId = new Map(tree.messages.map((m) => [m.id, m]));
+  const thread: ChatMessage[] = [];
+  let node = tree.currentLeafId ? byId.get(tree.currentLeafId) : undefined;
+  while (node) {
+    thread.unshift(node);
+    node = node.parent_id ? byId.get(node.parent_id) : undefined;
+  }
+  return thread;
+}
+
+/** All alternatives at the same point of the conversation, including the message itself */
+export function getSiblings(tree: MessageTree, id: string): ChatMessage[] {
+  const message = findMessage(tree, id);
+  if (!message) return [];
+  const parentId = message.parent_id ?? null;
+  return tree.messages.filter((m) => (m.parent_id ?? null) === parentId);
+}
+
+/** Add a message under the current leaf and make it the new leaf */
+export function appendMessage(tree: MessageTree, message: ChatMessage): MessageTree {
+  const node: ChatMessage = {
+    ...message,
+    id: message.id || createMessageId(),
+    parent_id: tree.currentLeafId,
+  };
+  return { messages: [...tree.messages, node], currentLeafId: node.id! };
+}
+
+export function updateMessage(
+  tree: MessageTree,
+  id: string,
+  patch: (message: ChatMessage) => Partial<ChatMessage>
+): MessageTree {
+  return {
+    ...tree,
+    messages: tree.messages.map((m) => (m.id === id ? { ...m, ...patch(m) } : m)),
+  };
+}
+
+/** Move the leaf to `parentId` so the next append starts a new branch there */
+export function branchFrom(tree: MessageTree, parentId: string | null | undefined): MessageTree {
+  return { ...tree, currentLeafId: parentId ?? null };
+}
+
+/**
+ * Show the branch containing `id`, following the most recent child below it
+ * down to a leaf.
+ */
+export function selectBranch(tree: MessageTree, id: string): MessageTree {
+  if (!findMessage(tree, id)) return tree;
+
+  let leafId = id;
+  for (;;) {
+    const children = tree.messages.filter((m) => m.parent_id === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id!;
+  }
+  return { ...tree, currentLeafId: leafId };
+}
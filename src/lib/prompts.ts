@@ -0,0 +1,31 @@
+// {{name}} placeholders; names may contain letters, digits, _, - and .
+const VARIABLE_PATTERN = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/** Placeholder names in order of first appearance */
+export function extractVariables(content: string): string[] {
+  const names = new Set<string>();
+  for (const match of content.matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  return [...names];
+}
+
+/** Replace placeholders; ones without a value are left as typed */
+export function fillVariables(content: string, values: Record<string, string>): string {
+  return content.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    values[name] !== undefined && values[name] !== "" ? values[name] : placeholder
+  );
+}
+
+/** Lower-case, trimmed and de-duplicated tags */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+  const normalized = tags
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().toLowerCase())
+    .filter(Boolean);
+  return [...new Set(normalized)];
+}
+
+/** "code, Review ,code" -> ["code", "review"] */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(","));
+}
@@ -0,0 +1,84 @@
+import { QueryRequest, SourceDocument } from "@/types/api";
+import { DEFAULT_MAX_TOKENS, MAX_COMPLETION_TOKENS } from "@/constants/tokens";
+
+/**
+ * Query Playground comparisons: each variant overrides a few settings of the
+ * shared playground configuration, and all variants answer the same question.
+ */
+
+export type VariantOverrides = Partial<
+  Pick<
+    QueryRequest,
+    | "top_k"
+    | "similarity_threshold"
+    | "max_docs_for_context"
+    | "temperature"
+    | "query_expansion"
+    | "deep_reasoning"
+    | "system_prompt"
+  >
+>;
+
+export interface QueryVariant {
+  id: string;
+  overrides: VariantOverrides;
+}
+
+export const MIN_VARIANTS = 2;
+export const MAX_VARIANTS = 4;
+
+export const variantLabel = (index: number) => String.fromCharCode(65 + index);
+
+/** The request a variant sends, with max_tokens clamped like a single run */
+export function buildVariantRequest(base: QueryRequest, overrides: VariantOverrides): QueryRequest {
+  const request = { ...base, ...overrides };
+  return {
+    ...request,
+    max_tokens: Math.min(request.max_tokens ?? DEFAULT_MAX_TOKENS, MAX_COMPLETION_TOKENS),
+  };
+}
+
+const OVERRIDE_LABELS: Record<keyof VariantOverrides, string> = {
+  top_k: "Top K",
+  similarity_threshold: "Threshold",
+  max_docs_for_context: "Max docs",
+  temperature: "Temperature",
+  query_expansion: "Query expansion",
+  deep_reasoning: "Deep reasoning",
+  system_prompt: "System prompt",
+};
+
+/** Short "Top K 10 · Query expansion on" summary of what a variant changes */
+export function describeOverrides(base: QueryRequest, overrides: VariantOverrides): string {
+  const changes = (Object.keys(overrides) as Array<keyof VariantOverrides>)
+    .filter((key) => overrides[key] !== undefined && overrides[key] !== base[key])
+    .map((key) => {
+      const value = overrides[key];
+      if (key === "system_prompt") return `${OVERRIDE_LABELS[key]} changed`;
+      if (typeof value === "boolean") return `${OVERRIDE_LABELS[key]} ${value ? "on" : "off"}`;
+      return `${OVERRIDE_LABELS[key]} ${value}`;
+    });
+  return changes.length > 0 ? changes.join(" · ") : "Playground settings";
+}
+
+/** Identifies a retrieved chunk across result sets */
+export function getSourceKey(source: SourceDocument): string {
+  return `${source.store_id}:${source.filename}:${source.chunk_index}`;
+}
+
+/**
+ * For every variant's sources, the other variants that retrieved the same
+ * chunk, plus how many chunks all variants have in common.
+ */
+export function getSourceOverlap(sourceLists: SourceDocument[][]) {
+  const keySets = sourceLists.map((sources) => new Set(sources.map(getSourceKey)));
+  const sharedWith = sourceLists.map((sources, index) =>
+    sources.map((source) => {
+      const key = getSourceKey(source);
+      return keySets.flatMap((keys, other) => (other !== index && keys.has(key) ? [other] : []));
+    })
+  );
+  const [first, ...rest] = keySets;
+  const inAll = first ? [...first].filter((key) => rest.every((keys) => keys.has(key))).length : 0;
+  return { sharedWith, inAll };
+}
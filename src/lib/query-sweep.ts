@@ -0,0 +1,144 @@
+import { QueryResponse } from "@/types/api";
+import { VariantOverrides } from "@/lib/query-compare";
+
+/**
+ * Parameter sweeps: every combination of the chosen ranges is run for every
+ * question, and the runs are averaged per combination.
+ */
+
+export type SweepParameter = "top_k" | "similarity_threshold" | "max_docs_for_context" | "temperature";
+
+export interface SweepRange {
+  enabled: boolean;
+  from: number;
+  to: number;
+  step: number;
+}
+
+export const SWEEP_PARAMETERS: Array<{ key: SweepParameter; label: string; range: SweepRange }> = [
+  { key: "top_k", label: "Top K", range: { enabled: true, from: 5, to: 40, step: 5 } },
+  {
+    key: "similarity_threshold",
+    label: "Similarity Threshold",
+    range: { enabled: true, from: 0, to: 0.6, step: 0.2 },
+  },
+  {
+    key: "max_docs_for_context",
+    label: "Max Docs for Context",
+    range: { enabled: false, from: 1, to: 5, step: 2 },
+  },
+  { key: "temperature", label: "Temperature", range: { enabled: false, from: 0, to: 1, step: 0.5 } },
+];
+
+// Keeps an accidental step of 0.001 from queueing thousands of requests
+export const MAX_SWEEP_RUNS = 200;
+export const MAX_CONCURRENCY = 8;
+
+function rangeLength({ from, to, step }: SweepRange): number {
+  if (!(step > 0) || to < from) return 1;
+  return Math.floor((to - from) / step + 1e-9) + 1;
+}
+
+/** Values from `from` to `to` inclusive; steps are rounded to the step's own precision */
+export function expandRange(range: SweepRange): number[] {
+  const decimals = (String(range.step).split(".")[1] ?? "").length;
+  return Array.from({ length: rangeLength(range) }, (_, i) =>
+    Number((range.from + i * range.step).toFixed(decimals))
+  );
+}
+
+/** Number of combinations, counted without building the grid */
+export function getSweepSize(
+  ranges: Record<SweepParameter, SweepRange>,
+  sweepQueryExpansion: boolean
+): number {
+  return SWEEP_PARAMETERS.reduce(
+    (size, { key }) => (ranges[key].enabled ? size * rangeLength(ranges[key]) : size),
+    sweepQueryExpansion ? 2 : 1
+  );
+}
+
+/** Cartesian product of the enabled ranges, plus query expansion on and off when asked */
+export function buildSweepGrid(
+  ranges: Record<SweepParameter, SweepRange>,
+  sweepQueryExpansion: boolean
+): VariantOverrides[] {
+  let grid: VariantOverrides[] = [{}];
+  for (const { key } of SWEEP_PARAMETERS) {
+    if (!ranges[key].enabled) continue;
+    const values = expandRange(ranges[key]);
+    grid = grid.flatMap((combo) => values.map((value) => ({ ...combo, [key]: value })));
+  }
+  if (sweepQueryExpansion) {
+    grid = grid.flatMap((combo) => [false, true].map((value) => ({ ...combo, query_expansion: value })));
+  }
+  return grid;
+}
+
+/**
+ * Run `tasks` with at most `limit` in flight. `onSettled` is called as each
+ * one finishes; once `shouldStop` returns true no further tasks are started.
+ */
+export async function runWithConcurrency<T>(
+  tasks: Array<() => Promise<T>>,
+  limit: number,
+  onSettled: (index: number, result: PromiseSettledResult<T>) => void,
+  shouldStop: () => boolean = () => false
+): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length && !shouldStop()) {
+      const index = next++;
+      try {
+        onSettled(index, { status: "fulfilled", value: await tasks[index]() });
+      } catch (reason) {
+        onSettled(index, { status: "rejected", reason });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+}
+
+export interface SweepRun {
+  combo: number;
+  question: string;
+  response?: QueryResponse;
+  error?: string;
+}
+
+export interface SweepSummary {
+  combo: number;
+  overrides: VariantOverrides;
+  runs: number;
+  errors: number;
+  answerLength: number | null;
+  sourceCount: number | null;
+  similarity: number | null;
+  rerank: number | null;
+  confidence: number | null;
+}
+
+function mean(values: Array<number | null | undefined>): number | null {
+  const present = values.filter((value): value is number => typeof value === "number");
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : null;
+}
+
+/** Per-combination averages over the runs that have finished */
+export function summarizeSweep(grid: VariantOverrides[], runs: SweepRun[]): SweepSummary[] {
+  return grid.map((overrides, combo) => {
+    const own = runs.filter((run) => run.combo === combo);
+    const responses = own.flatMap((run) => (run.response ? [run.response] : []));
+    const sources = responses.flatMap((response) => response.sources);
+    return {
+      combo,
+      overrides,
+      runs: own.length,
+      errors: own.filter((run) => run.error).length,
+      answerLength: mean(responses.map((response) => response.response.length)),
+      sourceCount: mean(responses.map((response) => response.sources.length)),
+      similarity: mean(sources.map((source) => source.similarity_score)),
+      rerank: mean(sources.map((source) => source.rerank_score)),
+      confidence: mean(responses.map((response) => response.confidence_score)),
+    };
+  });
+}
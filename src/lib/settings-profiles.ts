@@ -0,0 +1,48 @@
+import { ChatSettings, ProfileSettings } from "@/types/chat";
+
+/** Every setting a profile can carry, in the order the settings panel shows them */
+export const PROFILE_SETTING_KEYS = [
+  "system_prompt",
+  "top_k",
+  "similarity_threshold",
+  "max_docs_for_context",
+  "temperature",
+  "max_tokens",
+  "include_sources",
+  "include_metadata",
+  "include_confidence",
+  "query_expansion",
+  "deep_reasoning",
+  "multi_source_fetch",
+  "condense_context",
+] as const satisfies ReadonlyArray<keyof ChatSettings>;
+
+/** Take the profile-able settings out of chat settings or a query form */
+export function pickProfileSettings(settings: object): ProfileSettings {
+  const values = settings as Record<string, unknown>;
+  const picked: Record<string, unknown> = {};
+  for (const key of PROFILE_SETTING_KEYS) {
+    if (values[key] !== undefined) picked[key] = values[key];
+  }
+  return picked as ProfileSettings;
+}
+
+/**
+ * Overlay a profile on `target`. Only keys the target already has are copied,
+ * so chat-only settings don't leak into the query playground's request.
+ */
+export function applyProfileSettings<T extends object>(target: T, profile: ProfileSettings): T {
+  const next = { ...target } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(profile)) {
+    if (key in target && value !== undefined) next[key] = value;
+  }
+  return next as T;
+}
+
+/** True when every setting the profile carries (and the target has) is unchanged */
+export function matchesProfileSettings(target: object, profile: ProfileSettings): boolean {
+  const values = target as Record<string, unknown>;
+  return Object.entries(profile).every(
+    ([key, value]) => !(key in values) || values[key] === value
+  );
+}
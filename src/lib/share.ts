@@ -0,0 +1,41 @@
+import { ChatMessage } from "@/types/chat";
+import { SourceDocument } from "@/types/api";
+
+export const SHARE_EXPIRY_OPTIONS: Array<{ label: string; days: number | null }> = [
+  { label: "1 day", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+  { label: "Never", days: null },
+];
+
+export function getShareUrl(shareId: string): string {
+  return `${window.location.origin}/share/${shareId}`;
+}
+
+/** Copy of a thread that's safe to publish: finished turns only, no personal ratings */
+export function toSharedMessages(messages: ChatMessage[]): ChatMessage[] {
+  return (
+    messages
+      .filter((m) => m.status !== "streaming")
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      .map(({ feedback, ...m }) => m)
+  );
+}
+
+/** Present a single app run as a question/answer exchange */
+export function appRunToMessages(run: {
+  question?: string;
+  answer: string;
+  sourceDocuments: SourceDocument[];
+  createdAt?: string;
+}): ChatMessage[] {
+  const timestamp = run.createdAt ?? new Date().toISOString();
+  const answer: ChatMessage = {
+    role: "assistant",
+    content: run.answer,
+    sources: run.sourceDocuments,
+    timestamp,
+    status: "complete",
+  };
+  return run.question ? [{ role: "user", content: run.question, timestamp }, answer] : [answer];
+}
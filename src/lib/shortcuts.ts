@@ -0,0 +1,98 @@
+/**
+ * Keyboard bindings and the page actions they (and the command palette)
+ * trigger. Actions on another page are requested through `?action=` so the
+ * page that owns the state carries them out once it has loaded.
+ */
+
+export type PageAction = "new-chat" | "toggle-deep-reasoning" | "upload";
+
+export function getActionHref(action: PageAction, storeId?: string): string {
+  return action === "upload" ? `/stores/${storeId}?action=upload` : `/?action=${action}`;
+}
+
+export interface ShortcutBinding {
+  key: string;
+  /** Ctrl on Windows and Linux, Cmd on macOS */
+  mod?: boolean;
+  /** Alt on Windows and Linux, Option on macOS */
+  alt?: boolean;
+  shift?: boolean;
+}
+
+export interface Shortcut {
+  id: string;
+  description: string;
+  /** Where the binding applies; only "Global" bindings are handled by the palette */
+  scope: "Global" | "Chat input";
+  bindings: ShortcutBinding[];
+}
+
+// Ctrl/Cmd+Shift+letter is mostly taken by the browser (new window, bookmarks,
+// dev tools), so page actions use Alt+Shift instead
+export const SHORTCUTS: Shortcut[] = [
+  { id: "palette", description: "Open the command palette", scope: "Global", bindings: [{ key: "k", mod: true }] },
+  { id: "shortcuts", description: "Show keyboard shortcuts", scope: "Global", bindings: [{ key: "/", mod: true }] },
+  { id: "new-chat", description: "Start a new chat", scope: "Global", bindings: [{ key: "n", alt: true, shift: true }] },
+  {
+    id: "toggle-deep-reasoning",
+    description: "Toggle deep reasoning",
+    scope: "Global",
+    bindings: [{ key: "r", alt: true, shift: true }],
+  },
+  { id: "send", description: "Send message", scope: "Chat input", bindings: [{ key: "Enter" }] },
+  { id: "newline", description: "New line", scope: "Chat input", bindings: [{ key: "Enter", shift: true }] },
+  { id: "commands", description: "Slash commands", scope: "Chat input", bindings: [{ key: "/" }] },
+  { id: "mention", description: "Mention a knowledge base or document", scope: "Chat input", bindings: [{ key: "@" }] },
+  {
+    id: "suggestion-move",
+    description: "Move through suggestions",
+    scope: "Chat input",
+    bindings: [{ key: "ArrowUp" }, { key: "ArrowDown" }],
+  },
+  { id: "suggestion-complete", description: "Complete suggestion", scope: "Chat input", bindings: [{ key: "Tab" }] },
+  { id: "suggestion-dismiss", description: "Dismiss suggestions", scope: "Chat input", bindings: [{ key: "Escape" }] },
+];
+
+export function isMacPlatform(): boolean {
+  return typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+}
+
+export function matchesBinding(event: KeyboardEvent, binding: ShortcutBinding): boolean {
+  // Option changes the character typed on macOS, so letters held with Alt are matched by key position
+  const keyMatches =
+    binding.alt && /^[a-z]$/i.test(binding.key)
+      ? event.code === `Key${binding.key.toUpperCase()}`
+      : event.key.toLowerCase() === binding.key.toLowerCase();
+  return (
+    keyMatches &&
+    !!binding.mod === (event.metaKey || event.ctrlKey) &&
+    !!binding.alt === event.altKey &&
+    !!binding.shift === event.shiftKey
+  );
+}
+
+/** The global shortcut `event` triggers, if any */
+export function findShortcut(event: KeyboardEvent): Shortcut | undefined {
+  return SHORTCUTS.find(
+    (shortcut) =>
+      shortcut.scope === "Global" &&
+      shortcut.bindings.some((binding) => matchesBinding(event, binding))
+  );
+}
+
+const KEY_LABELS: Record<string, string> = {
+  Enter: "Enter",
+  Escape: "Esc",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+/** Key caps for a binding, e.g. ["⌥", "⇧", "N"] on macOS or ["Alt", "Shift", "N"] elsewhere */
+export function formatBinding(binding: ShortcutBinding, mac = isMacPlatform()): string[] {
+  const keys: string[] = [];
+  if (binding.mod) keys.push(mac ? "⌘" : "Ctrl");
+  if (binding.alt) keys.push(mac ? "⌥" : "Alt");
+  if (binding.shift) keys.push(mac ? "⇧" : "Shift");
+  keys.push(KEY_LABELS[binding.key] ?? binding.key.toUpperCase());
+  return keys;
+}
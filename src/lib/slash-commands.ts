@@ -0,0 +1,78 @@
+import { ChatExportFormat } from "@/types/session";
+
+/**
+ * Slash commands typed into the chat input. Parsing lives here; the chat
+ * page decides what each command does.
+ */
+
+export type SlashCommandName = "kb" | "temp" | "topk" | "new" | "app" | "export";
+
+export interface SlashCommandDefinition {
+  name: SlashCommandName;
+  usage: string;
+  description: string;
+  /** False for commands that run as soon as they are picked */
+  takesArgs: boolean;
+}
+
+export interface ParsedSlashCommand {
+  name: SlashCommandName;
+  args: string;
+}
+
+export const SLASH_COMMANDS: SlashCommandDefinition[] = [
+  { name: "kb", usage: "/kb <name>[, <name>] | none", description: "Switch knowledge bases", takesArgs: true },
+  { name: "temp", usage: "/temp <0-1>", description: "Set the temperature", takesArgs: true },
+  { name: "topk", usage: "/topk <1-20>", description: "Set how many documents to retrieve", takesArgs: true },
+  { name: "new", usage: "/new", description: "Start a new session", takesArgs: false },
+  { name: "app", usage: "/app <name> | none", description: "Chat with an App", takesArgs: true },
+  { name: "export", usage: "/export [markdown|json|html]", description: "Export this conversation", takesArgs: true },
+];
+
+export const EXPORT_FORMAT_ALIASES: Record<string, ChatExportFormat> = {
+  markdown: "markdown",
+  md: "markdown",
+  json: "json",
+  html: "html",
+};
+
+/** The command in `input`, or null when it isn't a known slash command */
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+
+  const definition = SLASH_COMMANDS.find((c) => c.name === match[1].toLowerCase());
+  if (!definition) return null;
+  return { name: definition.name, args: (match[2] ?? "").trim() };
+}
+
+/** Commands whose name starts with what has been typed after the slash */
+export function matchSlashCommands(input: string): SlashCommandDefinition[] {
+  const match = input.match(/^\/(\w*)$/);
+  if (!match) return [];
+  const prefix = match[1].toLowerCase();
+  return SLASH_COMMANDS.filter((c) => c.name.startsWith(prefix));
+}
+
+/** Resolve comma-separated names against a list, exact matches first, then unique prefixes */
+export function resolveNames<T>(
+  args: string,
+  items: T[],
+  getName: (item: T) => string
+): { matched: T[]; unknown: string[] } {
+  const matched: T[] = [];
+  const unknown: string[] = [];
+
+  for (const raw of args.split(",").map((s) => s.trim()).filter(Boolean)) {
+    const needle = raw.toLowerCase();
+    const exact = items.find((item) => getName(item).toLowerCase() === needle);
+    const prefixed = items.filter((item) => getName(item).toLowerCase().startsWith(needle));
+    const found = exact ?? (prefixed.length === 1 ? prefixed[0] : undefined);
+    if (found) {
+      if (!matched.includes(found)) matched.push(found);
+    } else {
+      unknown.push(raw);
+    }
+  }
+  return { matched, unknown };
+}
@@ -0,0 +1,119 @@
+/**
+ * Minimal Server-Sent Events reader following the WHATWG event-stream format:
+ * named events, multi-line data, ids, comments and all three line endings.
+ */
+
+export interface ServerSentEvent {
+  /** Event name; "message" when the server sent no `event:` field */
+  event: string;
+  /** Data lines joined with "\n" */
+  data: string;
+  /** Last event id seen on the stream, if any */
+  id?: string;
+  /** Reconnection delay requested by the server, in milliseconds */
+  retry?: number;
+}
+
+/**
+ * Read `body` and call `onEvent` for every dispatched event.
+ * Return `false` from `onEvent` to stop reading early.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => boolean | void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  let eventName = "";
+  let dataLines: string[] = [];
+  let lastEventId: string | undefined;
+  let retry: number | undefined;
+
+  // Returns false when the consumer asked to stop
+  const processLine = (line: string): boolean => {
+    // A blank line dispatches the pending event
+    if (line === "") {
+      if (dataLines.length > 0) {
+        const event: ServerSentEvent = {
+          event: eventName || "message",
+          data: dataLines.join("\n"),
+          id: lastEventId,
+          retry,
+        };
+        eventName = "";
+        dataLines = [];
+        if (onEvent(event) === false) return false;
+      }
+      eventName = "";
+      dataLines = [];
+      return true;
+    }
+
+    // Comment line
+    if (line.startsWith(":")) return true;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        eventName = value;
+        break;
+      case "data":
+        dataLines.push(value);
+        break;
+      case "id":
+        // Ids containing NULL are ignored per spec
+        if (!value.includes("\0")) lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+    return true;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Split on CRLF, LF or CR. A trailing CR may be the first half of a
+      // CRLF, so hold it back until the next chunk arrives.
+      let text = buffer;
+      let carry = "";
+      if (!done && text.endsWith("\r")) {
+        carry = "\r";
+        text = text.slice(0, -1);
+      }
+      const lines = text.split(/\r\n|\n|\r/);
+      buffer = (lines.pop() ?? "") + carry;
+
+      for (const line of lines) {
+        if (!processLine(line)) {
+          await reader.cancel();
+          return;
+        }
+      }
+
+      if (done) {
+        // Per spec an unterminated final event is discarded
+        return;
+      }
+    }
+  } catch (error) {
+    // Close the connection when a handler (or the read itself) fails; a
+    // stream that already errored rejects the cancel, which is fine
+    await reader.cancel(error).catch(() => {});
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,49 @@
+import { v4 as uuidv4 } from "uuid";
+
+/**
+ * Messages exchanged between open tabs of the app. Chat content itself is not
+ * sent: a tab announces that it saved a session and the others reload it from
+ * IndexedDB, which stays the single source of truth.
+ */
+export type TabSyncMessage =
+  | { type: "chat-saved"; sessionId: string }
+  | { type: "session-changed"; sessionId: string }
+  /** Repeated while a reply streams; a lock lapses when the announcements stop */
+  | { type: "streaming"; sessionId: string; tabId: string; active: boolean }
+  /** Sent by a new tab so streaming tabs announce themselves straight away */
+  | { type: "streaming-query" }
+  | { type: "kb-selection"; storeIds: string[] };
+
+const CHANNEL_NAME = "local-rag-sync";
+
+/** Identifies this tab in streaming locks */
+export const TAB_ID = uuidv4();
+
+type Listener = (message: TabSyncMessage) => void;
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<Listener>();
+
+// One channel per tab; BroadcastChannel never delivers a message back to its sender
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => {
+      listeners.forEach((listener) => listener(event.data));
+    };
+  }
+  return channel;
+}
+
+export function postTabMessage(message: TabSyncMessage) {
+  getChannel()?.postMessage(message);
+}
+
+export function subscribeTabMessages(listener: Listener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
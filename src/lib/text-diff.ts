@@ -0,0 +1,73 @@
+/**
+ * Word-level diff for comparing answers. Whitespace is kept as its own token
+ * so joining the segments reproduces the original text.
+ */
+
+export type DiffSegmentType = "equal" | "added" | "removed";
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+// The LCS table is tokens(a) x tokens(b); beyond this, lines are compared instead
+const MAX_DIFF_CELLS = 2_000_000;
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return (byLine ? text.split(/(\n)/) : text.split(/(\s+)/)).filter(Boolean);
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string) {
+  const last = segments[segments.length - 1];
+  if (last?.type === type) last.text += text;
+  else segments.push({ type, text });
+}
+
+/** Segments that turn `before` into `after` */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  let a = tokenize(before, false);
+  let b = tokenize(after, false);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    a = tokenize(before, true);
+    b = tokenize(after, true);
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushSegment(segments, "equal", a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushSegment(segments, "removed", a[i++]);
+    } else {
+      pushSegment(segments, "added", b[j++]);
+    }
+  }
+  while (i < a.length) pushSegment(segments, "removed", a[i++]);
+  while (j < b.length) pushSegment(segments, "added", b[j++]);
+  return segments;
+}
+
+/** Share of `after` that is unchanged from `before`, between 0 and 1 */
+export function diffSimilarity(segments: DiffSegment[]): number {
+  let equal = 0;
+  let total = 0;
+  for (const segment of segments) {
+    if (segment.type === "removed") continue;
+    total += segment.text.length;
+    if (segment.type === "equal") equal += segment.text.length;
+  }
+  return total === 0 ? 1 : equal / total;
+}
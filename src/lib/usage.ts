@@ -0,0 +1,25 @@
+import { QueryUsage } from "@/types/api";
+import { ChatMessage } from "@/types/chat";
+
+/**
+ * Add up the usage reported for a set of messages. Pass every branch of a
+ * session, not just the visible thread: discarded branches were billed too.
+ */
+export function sumUsage(messages: ChatMessage[]): QueryUsage {
+  return messages.reduce(
+    (total, m) => ({
+      total_tokens: total.total_tokens + (m.usage?.total_tokens ?? 0),
+      cost_usd: total.cost_usd + (m.usage?.cost_usd ?? 0),
+    }),
+    { total_tokens: 0, cost_usd: 0 }
+  );
+}
+
+export const formatTokens = (tokens: number): string => {
+  return tokens.toLocaleString();
+};
+
+// Sub-cent amounts are common per reply, so keep more precision below $1
+export const formatCost = (usd: number): string => {
+  return usd >= 1 ? `$${usd.toFixed(2)}` : `$${usd.toFixed(4)}`;
+};
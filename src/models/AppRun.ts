@@ -6,6 +6,8 @@ export interface IAppRun extends Document {
   question?: string;
   answer: string;
   sourceDocuments: any[];
+  sessionId?: string;
+  messageId?: string;
   createdAt: Date;
 }
 
@@ -29,6 +31,14 @@ const AppRunSchema = new Schema<IAppRun>(
       required: true,
       default: [],
     },
+    // Set for turns of a home-page chat driven by the App
+    sessionId: {
+      type: String,
+      index: true,
+    },
+    messageId: {
+      type: String,
+    },
   },
   {
     timestamps: { createdAt: true, updatedAt: false },
@@ -0,0 +1,54 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IChatSession extends Document {
+  sessionId: string;
+  title: string;
+  messages: any[];
+  currentLeafId?: string | null;
+  settings?: Record<string, any> | null;
+  appId?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ChatSessionSchema = new Schema<IChatSession>(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      default: "New chat",
+    },
+    //@ts-expect-error - messages is a mixed type
+    messages: {
+      type: [Schema.Types.Mixed],
+      required: true,
+      default: [],
+    },
+    currentLeafId: {
+      type: String,
+      default: null,
+    },
+    settings: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    appId: {
+      type: String,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Hot-reload guard
+export const ChatSession =
+  mongoose.models.ChatSession || mongoose.model<IChatSession>("ChatSession", ChatSessionSchema);
@@ -0,0 +1,72 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IFeedback extends Document {
+  rating: "up" | "down";
+  comment?: string;
+  origin: "chat" | "query" | "app";
+  question: string;
+  answer: string;
+  sources: any[];
+  settings: Record<string, any>;
+  storeIds: string[];
+  appId?: string;
+  sessionId?: string;
+  messageId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const FeedbackSchema = new Schema<IFeedback>(
+  {
+    rating: {
+      type: String,
+      enum: ["up", "down"],
+      required: true,
+    },
+    comment: {
+      type: String,
+      trim: true,
+    },
+    origin: {
+      type: String,
+      enum: ["chat", "query", "app"],
+      required: true,
+    },
+    question: {
+      type: String,
+      default: "",
+    },
+    answer: {
+      type: String,
+      required: true,
+    },
+    //@ts-expect-error - sources is a mixed type
+    sources: {
+      type: [Schema.Types.Mixed],
+      default: [],
+    },
+    settings: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    storeIds: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    appId: {
+      type: String,
+      index: true,
+    },
+    sessionId: String,
+    messageId: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Hot-reload guard
+export const Feedback =
+  mongoose.models.Feedback || mongoose.model<IFeedback>("Feedback", FeedbackSchema);
@@ -0,0 +1,64 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IPromptVersion {
+  content: string;
+  createdAt: Date;
+}
+
+export interface IPrompt extends Document {
+  name: string;
+  description?: string;
+  content: string;
+  tags: string[];
+  versions: IPromptVersion[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PromptVersionSchema = new Schema<IPromptVersion>(
+  {
+    content: {
+      type: String,
+      required: true,
+    },
+    createdAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const PromptSchema = new Schema<IPrompt>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    content: {
+      type: String,
+      required: true,
+    },
+    tags: {
+      type: [String],
+      default: [],
+      index: true,
+    },
+    // Previous contents, newest first; the current content is not included
+    versions: {
+      type: [PromptVersionSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Hot-reload guard
+export const Prompt = mongoose.models.Prompt || mongoose.model<IPrompt>("Prompt", PromptSchema);
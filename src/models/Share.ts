@@ -0,0 +1,61 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IShare extends Document {
+  shareId: string;
+  kind: "chat" | "app-run";
+  sourceId: string;
+  title: string;
+  messages: any[];
+  expiresAt?: Date | null;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ShareSchema = new Schema<IShare>(
+  {
+    shareId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    kind: {
+      type: String,
+      enum: ["chat", "app-run"],
+      required: true,
+    },
+    sourceId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    //@ts-expect-error - messages is a mixed type
+    messages: {
+      type: [Schema.Types.Mixed],
+      required: true,
+      default: [],
+    },
+    // Mongo's TTL monitor drops expired snapshots; reads also check the date
+    expiresAt: {
+      type: Date,
+      default: null,
+      index: { expireAfterSeconds: 0 },
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Hot-reload guard
+export const Share = mongoose.models.Share || mongoose.model<IShare>("Share", ShareSchema);
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// One billed completion. Records are only ever appended, so deleting a chat
+// or an App leaves the spend it caused in the monthly totals.
+export interface IUsageRecord extends Document {
+  origin: "chat" | "query" | "app";
+  total_tokens: number;
+  cost_usd: number;
+  appId?: string;
+  sessionId?: string;
+  messageId?: string;
+  createdAt: Date;
+}
+
+const UsageRecordSchema = new Schema<IUsageRecord>(
+  {
+    origin: {
+      type: String,
+      enum: ["chat", "query", "app"],
+      required: true,
+    },
+    total_tokens: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    cost_usd: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    appId: String,
+    sessionId: String,
+    messageId: String,
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+UsageRecordSchema.index({ createdAt: -1 });
+
+// Hot-reload guard
+export const UsageRecord =
+  mongoose.models.UsageRecord || mongoose.model<IUsageRecord>("UsageRecord", UsageRecordSchema);
@@ -2,6 +2,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import type { AppProps } from "next/app";
 import { useState } from "react";
 import { Geist, Geist_Mono } from "next/font/google";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github.css";
 import "../styles/globals.css";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Toaster } from "@/components/ui/toaster";
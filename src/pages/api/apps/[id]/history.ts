@@ -16,18 +16,20 @@ export default async function handler(
 
   if (req.method === "GET") {
     try {
-      const { page = "1", limit = "20" } = req.query;
+      const { page = "1", limit = "20", sessionId } = req.query;
       const pageNum = parseInt(page as string, 10);
       const limitNum = parseInt(limit as string, 10);
       const skip = (pageNum - 1) * limitNum;
+      const filter: Record<string, unknown> = { appId: id };
+      if (typeof sessionId === "string" && sessionId) filter.sessionId = sessionId;
 
       const [runs, total] = await Promise.all([
-        AppRun.find({ appId: id })
+        AppRun.find(filter)
           .sort({ createdAt: -1 })
           .skip(skip)
           .limit(limitNum)
           .lean(),
-        AppRun.countDocuments({ appId: id }),
+        AppRun.countDocuments(filter),
       ]);
 
       res.status(200).json({
@@ -44,8 +46,8 @@ export default async function handler(
     }
   } else if (req.method === "POST") {
     try {
-      // Optional endpoint to manually record a run
-      const { question, answer, sourceDocuments } = req.body;
+      // Records runs made outside /run, e.g. chat turns streamed with the App's settings
+      const { question, answer, sourceDocuments, sessionId, messageId } = req.body;
 
       if (!answer) {
         return res.status(400).json({ error: "Answer is required" });
@@ -56,6 +58,8 @@ export default async function handler(
         question,
         answer,
         sourceDocuments: sourceDocuments || [],
+        sessionId,
+        messageId,
       });
 
       const savedAppRun = await appRun.save();
@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from "next";
 import dbConnect from "@/lib/mongodb";
 import { App } from "@/models/App";
 import { AppRun } from "@/models/AppRun";
+import { UsageRecord } from "@/models/UsageRecord";
 import { RunAppRequest, RunAppResponse } from "@/types/app";
 import { QueryRequest } from "@/types/api";
 import { queryApi } from "@/lib/api";
@@ -67,6 +68,17 @@ export default async function handler(
     // Execute the query using the existing service
     const queryResponse = await queryApi.query(queryRequest);
 
+    // The completion is billed whether or not the run is saved, so record it first
+    if (queryResponse.usage) {
+      await UsageRecord.create({
+        origin: "app",
+        //@ts-expect-error - app is a type
+        appId: app._id.toString(),
+        total_tokens: queryResponse.usage.total_tokens,
+        cost_usd: queryResponse.usage.cost_usd,
+      }).catch((error: unknown) => console.error("Failed to record usage:", error));
+    }
+
     // Create an AppRun document to record this execution
     const appRun = new AppRun({
       //@ts-expect-error - app is a type
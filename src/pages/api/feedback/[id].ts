@@ -0,0 +1,69 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { Feedback } from "@/models/Feedback";
+import { UpdateFeedbackRequest } from "@/types/feedback";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid feedback ID" });
+  }
+
+  if (req.method === "PUT") {
+    try {
+      const { rating, comment }: UpdateFeedbackRequest = req.body;
+
+      if (rating !== undefined && rating !== "up" && rating !== "down") {
+        return res.status(400).json({ error: "rating must be up or down" });
+      }
+      if (comment !== undefined && typeof comment !== "string") {
+        return res.status(400).json({ error: "comment must be a string" });
+      }
+
+      const updateData: UpdateFeedbackRequest = {};
+      if (rating !== undefined) updateData.rating = rating;
+      if (comment !== undefined) updateData.comment = comment;
+
+      const updatedFeedback = await Feedback.findByIdAndUpdate(
+        id,
+        { $set: updateData },
+        { new: true, runValidators: true }
+      ).lean();
+
+      if (!updatedFeedback) {
+        return res.status(404).json({ error: "Feedback not found" });
+      }
+
+      res.status(200).json({
+        ...updatedFeedback,
+        //@ts-expect-error - updatedFeedback is a type
+        _id: updatedFeedback._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error updating feedback:", error);
+      res.status(500).json({ error: "Failed to update feedback" });
+    }
+  } else if (req.method === "DELETE") {
+    try {
+      const deletedFeedback = await Feedback.findByIdAndDelete(id);
+
+      if (!deletedFeedback) {
+        return res.status(404).json({ error: "Feedback not found" });
+      }
+
+      res.status(200).json({ message: "Feedback deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting feedback:", error);
+      res.status(500).json({ error: "Failed to delete feedback" });
+    }
+  } else {
+    res.setHeader("Allow", ["PUT", "DELETE"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
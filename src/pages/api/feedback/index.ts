@@ -0,0 +1,100 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { Feedback } from "@/models/Feedback";
+import { CreateFeedbackRequest } from "@/types/feedback";
+
+const ORIGINS = ["chat", "query", "app"];
+const optionalString = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  if (req.method === "GET") {
+    try {
+      const { page = "1", limit = "20", rating, storeId, appId, origin } = req.query;
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+      const skip = (pageNum - 1) * limitNum;
+
+      const filter: Record<string, unknown> = {};
+      if (typeof rating === "string" && rating) filter.rating = rating;
+      if (typeof storeId === "string" && storeId) filter.storeIds = storeId;
+      if (typeof appId === "string" && appId) filter.appId = appId;
+      if (typeof origin === "string" && origin) filter.origin = origin;
+
+      const [feedback, total] = await Promise.all([
+        Feedback.find(filter)
+          .sort({ createdAt: -1 })
+          .skip(skip)
+          .limit(limitNum)
+          .lean(),
+        Feedback.countDocuments(filter),
+      ]);
+
+      res.status(200).json({
+        feedback: feedback.map(item => ({
+          ...item,
+          //@ts-expect-error - item is a type
+          _id: item._id.toString(),
+        })),
+        total,
+        page: pageNum,
+        limit: limitNum,
+      });
+    } catch (error) {
+      console.error("Error fetching feedback:", error);
+      res.status(500).json({ error: "Failed to fetch feedback" });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const data: CreateFeedbackRequest = req.body;
+
+      // Validate required fields
+      if (
+        (data.rating !== "up" && data.rating !== "down") ||
+        !ORIGINS.includes(data.origin) ||
+        typeof data.answer !== "string" ||
+        !data.answer
+      ) {
+        return res.status(400).json({
+          error: "rating, origin and answer are required",
+        });
+      }
+
+      // Only the documented fields are stored, whatever else the body carries
+      const feedback = new Feedback({
+        rating: data.rating,
+        comment: optionalString(data.comment),
+        origin: data.origin,
+        question: optionalString(data.question) ?? "",
+        answer: data.answer,
+        sources: Array.isArray(data.sources) ? data.sources : [],
+        settings:
+          typeof data.settings === "object" && data.settings !== null && !Array.isArray(data.settings)
+            ? data.settings
+            : {},
+        storeIds: Array.isArray(data.storeIds)
+          ? data.storeIds.filter((id): id is string => typeof id === "string")
+          : [],
+        appId: optionalString(data.appId),
+        sessionId: optionalString(data.sessionId),
+        messageId: optionalString(data.messageId),
+      });
+      const savedFeedback = await feedback.save();
+
+      res.status(201).json({
+        ...savedFeedback.toObject(),
+        _id: savedFeedback._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error creating feedback:", error);
+      res.status(500).json({ error: "Failed to create feedback" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
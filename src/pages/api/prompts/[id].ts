@@ -0,0 +1,90 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { Prompt } from "@/models/Prompt";
+import { UpdatePromptRequest } from "@/types/prompt";
+import { normalizeTags } from "@/lib/prompts";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid prompt ID" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const prompt = await Prompt.findById(id).lean();
+
+      if (!prompt) {
+        return res.status(404).json({ error: "Prompt not found" });
+      }
+
+      res.status(200).json({
+        ...prompt,
+        //@ts-expect-error - prompt is a type
+        _id: prompt._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error fetching prompt:", error);
+      res.status(500).json({ error: "Failed to fetch prompt" });
+    }
+  } else if (req.method === "PUT") {
+    try {
+      const { name, description, content, tags }: UpdatePromptRequest = req.body;
+
+      const prompt = await Prompt.findById(id);
+      if (!prompt) {
+        return res.status(404).json({ error: "Prompt not found" });
+      }
+
+      // Fields left out keep their value (restoring a version sends only content),
+      // but a name that is sent must not be blank
+      if (name !== undefined && (typeof name !== "string" || !name.trim())) {
+        return res.status(400).json({ error: "Name cannot be empty" });
+      }
+      if (content !== undefined && (typeof content !== "string" || !content.trim())) {
+        return res.status(400).json({ error: "Content cannot be empty" });
+      }
+
+      // Keep the outgoing content as a version whenever it changes
+      if (content !== undefined && content !== prompt.content) {
+        prompt.versions.unshift({ content: prompt.content, createdAt: prompt.updatedAt });
+        prompt.content = content;
+      }
+      if (name !== undefined) prompt.name = name;
+      if (description !== undefined) prompt.description = description;
+      if (tags !== undefined) prompt.tags = normalizeTags(tags);
+
+      const savedPrompt = await prompt.save();
+
+      res.status(200).json({
+        ...savedPrompt.toObject(),
+        _id: savedPrompt._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error updating prompt:", error);
+      res.status(500).json({ error: "Failed to update prompt" });
+    }
+  } else if (req.method === "DELETE") {
+    try {
+      const deletedPrompt = await Prompt.findByIdAndDelete(id);
+
+      if (!deletedPrompt) {
+        return res.status(404).json({ error: "Prompt not found" });
+      }
+
+      res.status(200).json({ message: "Prompt deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting prompt:", error);
+      res.status(500).json({ error: "Failed to delete prompt" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,71 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { Prompt } from "@/models/Prompt";
+import { CreatePromptRequest } from "@/types/prompt";
+import { normalizeTags } from "@/lib/prompts";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  if (req.method === "GET") {
+    try {
+      const { tag } = req.query;
+
+      const filter: Record<string, unknown> = {};
+      if (typeof tag === "string" && tag) filter.tags = tag.toLowerCase();
+
+      // The library is small enough to send whole; pickers search it client-side
+      const prompts = await Prompt.find(filter).sort({ name: 1 }).lean();
+
+      res.status(200).json({
+        prompts: prompts.map(prompt => ({
+          ...prompt,
+          //@ts-expect-error - prompt is a type
+          _id: prompt._id.toString(),
+        })),
+        total: prompts.length,
+      });
+    } catch (error) {
+      console.error("Error fetching prompts:", error);
+      res.status(500).json({ error: "Failed to fetch prompts" });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const { name, description, content, tags }: CreatePromptRequest = req.body;
+
+      // Validate required fields
+      if (
+        typeof name !== "string" ||
+        typeof content !== "string" ||
+        !name.trim() ||
+        !content.trim()
+      ) {
+        return res.status(400).json({
+          error: "Name and content are required",
+        });
+      }
+
+      const prompt = new Prompt({
+        name,
+        description,
+        content,
+        tags: normalizeTags(tags),
+      });
+      const savedPrompt = await prompt.save();
+
+      res.status(201).json({
+        ...savedPrompt.toObject(),
+        _id: savedPrompt._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error creating prompt:", error);
+      res.status(500).json({ error: "Failed to create prompt" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,86 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { ChatSession } from "@/models/ChatSession";
+import { SaveChatSessionRequest } from "@/types/session";
+import { deriveSessionTitle } from "@/lib/chat-utils";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  // Sessions are addressed by their client-generated sessionId, not the Mongo _id
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid session ID" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const session = await ChatSession.findOne({ sessionId: id }).lean();
+
+      if (!session) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      res.status(200).json({
+        ...session,
+        //@ts-expect-error - session is a type
+        _id: session._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error fetching chat session:", error);
+      res.status(500).json({ error: "Failed to fetch chat session" });
+    }
+  } else if (req.method === "PUT") {
+    try {
+      const { title, messages, currentLeafId, settings, appId }: SaveChatSessionRequest = req.body;
+
+      const $set: Record<string, unknown> = {};
+      if (title !== undefined) $set.title = title;
+      if (messages !== undefined) $set.messages = messages;
+      if (currentLeafId !== undefined) $set.currentLeafId = currentLeafId;
+      if (settings !== undefined) $set.settings = settings;
+      if (appId !== undefined) $set.appId = appId;
+
+      // Upsert so the client can save a session the first time it has messages
+      const update: Record<string, unknown> = { $set };
+      if (title === undefined) {
+        update.$setOnInsert = { title: deriveSessionTitle(messages || []) };
+      }
+
+      const savedSession = await ChatSession.findOneAndUpdate(
+        { sessionId: id },
+        update,
+        { new: true, upsert: true, runValidators: true }
+      ).lean();
+
+      res.status(200).json({
+        ...savedSession,
+        //@ts-expect-error - savedSession is a type
+        _id: savedSession._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error saving chat session:", error);
+      res.status(500).json({ error: "Failed to save chat session" });
+    }
+  } else if (req.method === "DELETE") {
+    try {
+      const deletedSession = await ChatSession.findOneAndDelete({ sessionId: id });
+
+      if (!deletedSession) {
+        return res.status(404).json({ error: "Chat session not found" });
+      }
+
+      res.status(200).json({ message: "Chat session deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting chat session:", error);
+      res.status(500).json({ error: "Failed to delete chat session" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET", "PUT", "DELETE"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
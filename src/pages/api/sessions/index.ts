@@ -0,0 +1,85 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import { v4 as uuidv4 } from "uuid";
+import dbConnect from "@/lib/mongodb";
+import { ChatSession } from "@/models/ChatSession";
+import { SaveChatSessionRequest } from "@/types/session";
+import { deriveSessionTitle } from "@/lib/chat-utils";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  if (req.method === "GET") {
+    try {
+      const { page = "1", limit = "50" } = req.query;
+      const pageNum = parseInt(page as string, 10);
+      const limitNum = parseInt(limit as string, 10);
+      const skip = (pageNum - 1) * limitNum;
+
+      // Project a message count instead of shipping every message to the sidebar
+      const [sessions, total] = await Promise.all([
+        ChatSession.aggregate([
+          { $sort: { updatedAt: -1 } },
+          { $skip: skip },
+          { $limit: limitNum },
+          {
+            $project: {
+              sessionId: 1,
+              title: 1,
+              createdAt: 1,
+              updatedAt: 1,
+              messageCount: { $size: "$messages" },
+            },
+          },
+        ]),
+        ChatSession.countDocuments({}),
+      ]);
+
+      res.status(200).json({
+        sessions: sessions.map(session => ({
+          ...session,
+          _id: session._id.toString(),
+        })),
+        total,
+        page: pageNum,
+        limit: limitNum,
+      });
+    } catch (error) {
+      console.error("Error fetching chat sessions:", error);
+      res.status(500).json({ error: "Failed to fetch chat sessions" });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const {
+        title,
+        messages = [],
+        currentLeafId = null,
+        settings = null,
+        appId = null,
+      }: SaveChatSessionRequest = req.body;
+
+      const session = new ChatSession({
+        sessionId: req.body.sessionId || uuidv4(),
+        title: title || deriveSessionTitle(messages),
+        messages,
+        currentLeafId,
+        settings,
+        appId,
+      });
+      const savedSession = await session.save();
+
+      res.status(201).json({
+        ...savedSession.toObject(),
+        _id: savedSession._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error creating chat session:", error);
+      res.status(500).json({ error: "Failed to create chat session" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,72 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { ChatSession } from "@/models/ChatSession";
+import { ChatMessage } from "@/types/chat";
+import { ChatSearchResult } from "@/types/session";
+import { getMessageText } from "@/lib/chat-utils";
+import {
+  MIN_SEARCH_LENGTH,
+  buildSnippet,
+  escapeRegExp,
+  matchesAllTerms,
+  splitSearchTerms,
+} from "@/lib/chat-search";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", ["GET"]);
+    return res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+
+  try {
+    const { q = "", limit = "50" } = req.query;
+    const query = (q as string).trim();
+    const limitNum = parseInt(limit as string, 10);
+
+    if (query.length < MIN_SEARCH_LENGTH) {
+      return res.status(200).json({ query, results: [], total: 0 });
+    }
+
+    // Narrow down to sessions containing every term, then find the exact messages
+    const terms = splitSearchTerms(query);
+    const sessions = await ChatSession.find({
+      $and: terms.map((term) => {
+        const pattern = new RegExp(escapeRegExp(term), "i");
+        return { $or: [{ "messages.content": pattern }, { "messages.content.text": pattern }] };
+      }),
+    })
+      .sort({ updatedAt: -1 })
+      .select({ sessionId: 1, title: 1, messages: 1 })
+      .lean();
+
+    const results: ChatSearchResult[] = [];
+    for (const session of sessions) {
+      for (const message of session.messages as ChatMessage[]) {
+        const text = getMessageText(message);
+        if (!matchesAllTerms(text, terms)) continue;
+        results.push({
+          sessionId: session.sessionId,
+          sessionTitle: session.title,
+          messageId: message.id ?? null,
+          role: message.role,
+          timestamp: message.timestamp,
+          snippet: buildSnippet(text, terms),
+        });
+      }
+    }
+
+    res.status(200).json({
+      query,
+      results: results.slice(0, limitNum),
+      total: results.length,
+    });
+  } catch (error) {
+    console.error("Error searching chat sessions:", error);
+    res.status(500).json({ error: "Failed to search chat sessions" });
+  }
+}
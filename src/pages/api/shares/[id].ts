@@ -0,0 +1,65 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { Share } from "@/models/Share";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  // Shares are addressed by their public shareId, not the Mongo _id
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid share ID" });
+  }
+
+  if (req.method === "GET") {
+    try {
+      const share = await Share.findOne({ shareId: id }).lean();
+
+      if (!share) {
+        return res.status(404).json({ error: "This link does not exist" });
+      }
+      //@ts-expect-error - share is a type
+      if (share.revokedAt) {
+        return res.status(410).json({ error: "This link has been revoked" });
+      }
+      //@ts-expect-error - share is a type
+      if (share.expiresAt && share.expiresAt < new Date()) {
+        return res.status(410).json({ error: "This link has expired" });
+      }
+
+      res.status(200).json({
+        ...share,
+        //@ts-expect-error - share is a type
+        _id: share._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error fetching shared snapshot:", error);
+      res.status(500).json({ error: "Failed to fetch shared snapshot" });
+    }
+  } else if (req.method === "DELETE") {
+    try {
+      // Revoke rather than delete so the link reports why it stopped working
+      const revokedShare = await Share.findOneAndUpdate(
+        { shareId: id },
+        { $set: { revokedAt: new Date(), messages: [] } },
+        { new: true }
+      );
+
+      if (!revokedShare) {
+        return res.status(404).json({ error: "Share link not found" });
+      }
+
+      res.status(200).json({ message: "Share link revoked successfully" });
+    } catch (error) {
+      console.error("Error revoking share link:", error);
+      res.status(500).json({ error: "Failed to revoke share link" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET", "DELETE"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
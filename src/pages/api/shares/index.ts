@@ -0,0 +1,96 @@
+import { randomBytes } from "crypto";
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { Share } from "@/models/Share";
+import { CreateShareRequest } from "@/types/share";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SHARE_KINDS = ["chat", "app-run"];
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  if (req.method === "GET") {
+    try {
+      const { sourceId } = req.query;
+
+      if (!sourceId || typeof sourceId !== "string") {
+        return res.status(400).json({ error: "sourceId is required" });
+      }
+
+      // Only links that still open; revoked and expired ones are gone for good
+      const shares = await Share.find({
+        sourceId,
+        revokedAt: null,
+        $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }],
+      })
+        .select("-messages")
+        .sort({ createdAt: -1 })
+        .lean();
+
+      res.status(200).json({
+        shares: shares.map(share => ({
+          ...share,
+          //@ts-expect-error - share is a type
+          _id: share._id.toString(),
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching share links:", error);
+      res.status(500).json({ error: "Failed to fetch share links" });
+    }
+  } else if (req.method === "POST") {
+    try {
+      const { kind, sourceId, title, messages, expiresInDays }: CreateShareRequest = req.body;
+
+      // Validate required fields
+      if (!kind || !sourceId || !title || !Array.isArray(messages) || messages.length === 0) {
+        return res.status(400).json({
+          error: "kind, sourceId, title and messages are required",
+        });
+      }
+
+      if (!SHARE_KINDS.includes(kind)) {
+        return res.status(400).json({ error: `kind must be one of ${SHARE_KINDS.join(", ")}` });
+      }
+
+      // Null or left out means the link never expires
+      const expiresAt =
+        expiresInDays == null ? null : new Date(Date.now() + expiresInDays * DAY_MS);
+      if (
+        expiresAt &&
+        (typeof expiresInDays !== "number" || !(expiresInDays > 0) || Number.isNaN(expiresAt.getTime()))
+      ) {
+        return res.status(400).json({ error: "expiresInDays must be a positive number of days" });
+      }
+
+      const share = new Share({
+        // 144 bits of randomness, URL-safe
+        shareId: randomBytes(18).toString("base64url"),
+        kind,
+        sourceId,
+        title,
+        messages,
+        expiresAt,
+      });
+
+      const savedShare = await share.save();
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { messages: _messages, ...link } = savedShare.toObject();
+
+      res.status(201).json({
+        ...link,
+        _id: savedShare._id.toString(),
+      });
+    } catch (error) {
+      console.error("Error creating share link:", error);
+      res.status(500).json({ error: "Failed to create share link" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET", "POST"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { UsageRecord } from "@/models/UsageRecord";
+import { RecordUsageRequest } from "@/types/usage";
+
+const ORIGINS = ["chat", "query", "app"];
+
+const isAmount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+// Append-only: usage is recorded once per completion and never edited or removed
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  if (req.method === "POST") {
+    try {
+      const data: RecordUsageRequest = req.body;
+
+      // Validate required fields
+      if (!ORIGINS.includes(data.origin) || !isAmount(data.total_tokens) || !isAmount(data.cost_usd)) {
+        return res.status(400).json({
+          error: "origin, total_tokens and cost_usd are required",
+        });
+      }
+
+      const record = await UsageRecord.create({
+        origin: data.origin,
+        total_tokens: data.total_tokens,
+        cost_usd: data.cost_usd,
+        appId: data.appId,
+        sessionId: data.sessionId,
+        messageId: data.messageId,
+      });
+
+      res.status(201).json({ _id: record._id.toString() });
+    } catch (error) {
+      console.error("Error recording usage:", error);
+      res.status(500).json({ error: "Failed to record usage" });
+    }
+  } else {
+    res.setHeader("Allow", ["POST"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -0,0 +1,41 @@
+import { NextApiRequest, NextApiResponse } from "next";
+import dbConnect from "@/lib/mongodb";
+import { UsageRecord } from "@/models/UsageRecord";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  await dbConnect();
+
+  if (req.method === "GET") {
+    try {
+      const { months = "12" } = req.query;
+      const monthsNum = parseInt(months as string, 10);
+
+      // Bucket the usage ledger by the (UTC) month each completion was recorded in
+      const results = await UsageRecord.aggregate([
+        {
+          $group: {
+            _id: { $dateToString: { format: "%Y-%m", date: "$createdAt" } },
+            total_tokens: { $sum: "$total_tokens" },
+            cost_usd: { $sum: "$cost_usd" },
+            completions: { $sum: 1 },
+          },
+        },
+        { $sort: { _id: -1 } },
+        { $limit: monthsNum },
+      ]);
+
+      res.status(200).json({
+        months: results.map(({ _id, ...usage }) => ({ month: _id, ...usage })),
+      });
+    } catch (error) {
+      console.error("Error fetching monthly usage:", error);
+      res.status(500).json({ error: "Failed to fetch monthly usage" });
+    }
+  } else {
+    res.setHeader("Allow", ["GET"]);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+  }
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useRouter } from "next/router";
 import Link from "next/link";
-import { ArrowLeft, Play, Edit, Trash2, Database, Settings, History } from "lucide-react";
+import { ArrowLeft, Play, Edit, Trash2, Database, Settings, History, MessageCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -112,6 +112,12 @@ export default function AppDetailPage() {
               <Play className="h-5 w-5 mr-2" />
               Run App
             </Button>
+            <Button variant="outline" size="lg" asChild>
+              <Link href={`/?app=${app._id}`}>
+                <MessageCircle className="h-5 w-5 mr-2" />
+                Chat
+              </Link>
+            </Button>
             <Button
               variant="outline"
               onClick={() => setShowEditModal(true)}
@@ -274,7 +280,7 @@ export default function AppDetailPage() {
             ))}
           </div>
         ) : (
-          <AppHistoryTable runs={runs} />
+          <AppHistoryTable runs={runs} appName={app.name} />
         )}
       </div>
 
@@ -0,0 +1,274 @@
+import { useState } from "react";
+import Link from "next/link";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChevronLeft, ChevronRight, ExternalLink, FileText, ThumbsDown, ThumbsUp, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ConfirmationDialog } from "@/components/ConfirmationDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useApps } from "@/hooks/apps";
+import { useDeleteFeedback, useFeedbackList } from "@/hooks/feedback";
+import { vectorStoreApi } from "@/lib/api";
+import { getMessageHref } from "@/lib/chat-search";
+import { Feedback, FeedbackRating } from "@/types/feedback";
+
+const ALL = "all";
+
+const ORIGIN_LABELS: Record<Feedback["origin"], string> = {
+  chat: "Chat",
+  query: "Query Playground",
+  app: "App",
+};
+
+export default function FeedbackPage() {
+  const [rating, setRating] = useState<FeedbackRating | typeof ALL>("down");
+  const [storeId, setStoreId] = useState(ALL);
+  const [appId, setAppId] = useState(ALL);
+  const [page, setPage] = useState(1);
+  const [resolving, setResolving] = useState<Feedback | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = useFeedbackList({
+    rating: rating === ALL ? undefined : rating,
+    storeId: storeId === ALL ? undefined : storeId,
+    appId: appId === ALL ? undefined : appId,
+    page,
+  });
+  const { data: stores } = useQuery({
+    queryKey: ["vector-stores"],
+    queryFn: vectorStoreApi.getAll,
+  });
+  const { data: appsData } = useApps();
+  const deleteFeedback = useDeleteFeedback();
+
+  const storeNames = new Map(stores?.map((s) => [s.store_id, s.name]));
+  const appNames = new Map(appsData?.apps.map((a) => [a._id, a.name]));
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  // Any filter change starts again from the first page
+  const withPageReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(1);
+  };
+
+  const handleResolve = async () => {
+    if (!resolving) return;
+    try {
+      await deleteFeedback.mutateAsync(resolving._id);
+      toast({
+        title: "Feedback resolved",
+        description: "The entry has been removed from the review list.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to resolve feedback",
+        variant: "destructive",
+      });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "MMM dd, yyyy HH:mm");
+    } catch {
+      return "";
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">Answer Feedback</h1>
+        <p className="text-muted-foreground">
+          Review rated answers to find weak documents and prompts.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Rating</Label>
+          <Select
+            value={rating}
+            onValueChange={withPageReset((value: string) => setRating(value as FeedbackRating | typeof ALL))}
+          >
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="down">Negative</SelectItem>
+              <SelectItem value="up">Positive</SelectItem>
+              <SelectItem value={ALL}>All ratings</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Knowledge Base</Label>
+          <Select value={storeId} onValueChange={withPageReset(setStoreId)}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All knowledge bases</SelectItem>
+              {stores?.map((store) => (
+                <SelectItem key={store.store_id} value={store.store_id}>
+                  {store.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>App</Label>
+          <Select value={appId} onValueChange={withPageReset(setAppId)}>
+            <SelectTrigger className="bg-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All apps</SelectItem>
+              {appsData?.apps.map((app) => (
+                <SelectItem key={app._id} value={app._id}>
+                  {app.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-40 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {error instanceof Error ? error.message : "Failed to load feedback"}
+          </AlertDescription>
+        </Alert>
+      ) : !data || data.feedback.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <ThumbsDown className="mx-auto h-12 w-12 mb-4 opacity-50" />
+          <p>No feedback matches these filters.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {data.total} entr{data.total !== 1 ? "ies" : "y"}
+          </p>
+
+          {data.feedback.map((item) => (
+            <Card key={item._id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {item.rating === "down" ? (
+                      <ThumbsDown className="h-4 w-4 text-red-600" />
+                    ) : (
+                      <ThumbsUp className="h-4 w-4 text-green-600" />
+                    )}
+                    <Badge variant="secondary">
+                      {item.origin === "app" && item.appId
+                        ? appNames.get(item.appId) ?? ORIGIN_LABELS.app
+                        : ORIGIN_LABELS[item.origin]}
+                    </Badge>
+                    {item.storeIds.map((id) => (
+                      <Badge key={id} variant="outline">
+                        {storeNames.get(id) ?? id}
+                      </Badge>
+                    ))}
+                    <span>{formatDate(item.createdAt)}</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    {item.sessionId && (
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={getMessageHref(item.sessionId, item.messageId)}>
+                          <ExternalLink className="h-4 w-4 mr-1" />
+                          Open chat
+                        </Link>
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => setResolving(item)}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Resolve
+                    </Button>
+                  </div>
+                </div>
+
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground">Question</p>
+                  <p className="text-sm font-medium">{item.question || <em>(no question)</em>}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-muted-foreground">Answer</p>
+                  <p className="text-sm line-clamp-4 whitespace-pre-wrap">{item.answer}</p>
+                </div>
+                {item.comment && (
+                  <div className="rounded-md border-l-4 border-red-300 bg-red-50 px-3 py-2 text-sm">
+                    {item.comment}
+                  </div>
+                )}
+                {item.sources.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <FileText className="h-3 w-3" />
+                    {item.sources.map((source, index) => (
+                      <span key={index}>
+                        [{index + 1}] {source.source_name || source.filename}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-center gap-2 pt-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page <= 1}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground tabular-nums">
+                Page {page} of {totalPages}
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPage((p) => p + 1)}
+                disabled={page >= totalPages}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ConfirmationDialog
+        open={!!resolving}
+        onOpenChange={(open) => !open && setResolving(null)}
+        title="Resolve feedback"
+        description="This removes the feedback entry. The original answer and conversation are not affected."
+        confirmText="Resolve"
+        onConfirm={handleResolve}
+        destructive
+      />
+    </div>
+  );
+}
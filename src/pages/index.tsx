@@ -1,13 +1,57 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { useRouter } from "next/router";
+import { useQuery } from "@tanstack/react-query";
 import { v4 as uuidv4 } from "uuid";
-import { MessageCircle, Loader2 } from "lucide-react";
-import { ChatMessage, ChatRequest, ChatSettings } from "@/types/chat";
+import { MessageCircle, Loader2, Coins } from "lucide-react";
+import { ChatMention, ChatMessage, ChatRequest, ChatSettings } from "@/types/chat";
+import { ChatExportFormat } from "@/types/session";
+import { App } from "@/types/app";
+import { QueryUsage, SourceDocument } from "@/types/api";
+import { FeedbackContext } from "@/types/feedback";
+import { vectorStoreApi } from "@/lib/api";
 import { streamChat } from "@/lib/chatApi";
 import { MessageBubble } from "@/components/MessageBubble";
 import { PlaygroundSettings } from "@/components/PlaygroundSettings";
 import { FloatingChatInput } from "@/components/FloatingChatInput";
+import { ChatSessionSidebar } from "@/components/ChatSessionSidebar";
+import { ShareDialog } from "@/components/ShareDialog";
+import { ContextMeter } from "@/components/ContextMeter";
 import { useToast } from "@/hooks/use-toast";
+import { useRemoteStreaming, useTabMessages } from "@/hooks/use-tab-sync";
 import { useKnowledgeBaseStore } from "@/stores/knowledge-base-store";
+import { sessionsApi, useChatSessions, useSaveChatSession } from "@/hooks/sessions";
+import { useApps, useRecordAppRun } from "@/hooks/apps";
+import { useRecordUsage } from "@/hooks/usage";
+import { deriveSessionTitle, getMessageText } from "@/lib/chat-utils";
+import { exportChat, parseChatExport } from "@/lib/chat-export";
+import { formatCost, formatTokens, sumUsage } from "@/lib/usage";
+import { getAppChatSettings } from "@/lib/app-settings";
+import { getMentionScope } from "@/lib/mentions";
+import { createFrameBatcher } from "@/lib/frame-batch";
+import { planContext } from "@/lib/context-window";
+import { deleteChat, isQuotaExceeded, loadChat, saveChatMeta, saveChatTree } from "@/lib/chat-storage";
+import { postTabMessage } from "@/lib/tab-sync";
+import { toSharedMessages } from "@/lib/share";
+import {
+  EXPORT_FORMAT_ALIASES,
+  ParsedSlashCommand,
+  SLASH_COMMANDS,
+  resolveNames,
+} from "@/lib/slash-commands";
+import {
+  MessageTree,
+  EMPTY_TREE,
+  appendMessage,
+  branchFrom,
+  createMessageId,
+  findMessage,
+  getSiblings,
+  getThread,
+  selectBranch,
+  toMessageTree,
+  updateMessage,
+} from "@/lib/message-tree";
 import { DEFAULT_MAX_TOKENS } from "@/constants/tokens";
 
 // ------------------------------------------------------------
@@ -18,6 +62,33 @@ Engage in a natural, open‑ended conversation. Answer questions directly
 using your own knowledge; do not try to look up external documents.
 If you don't know something, say so. Keep responses concise and friendly.`;
 
+// Default settings similar to the playground
+const DEFAULT_CHAT_SETTINGS: Omit<ChatSettings, "vector_stores"> = {
+  top_k: 20,
+  max_docs_for_context: 3,
+  similarity_threshold: 0,
+  include_metadata: false,
+  include_sources: true,
+  include_confidence: false,
+  query_expansion: false,
+  deep_reasoning: false,
+  multi_source_fetch: true,
+  temperature: 0.7,
+  max_tokens: DEFAULT_MAX_TOKENS,
+  system_prompt: "",
+  condense_context: true,
+  metadata_filters: {},
+};
+
+// Mid-stream the tree changes every frame; the browser copy is written once it settles
+const HISTORY_SAVE_DELAY_MS = 1000;
+// How close to the bottom counts as "following" the conversation
+const STICK_TO_BOTTOM_PX = 120;
+
+// Failed replies that never produced text carry no useful context
+const isSendable = (message: ChatMessage) =>
+  !(message.status === "error" && !getMessageText(message).trim());
+
 // Session handling hook
 function useChatSession() {
   const [sessionId, setSessionId] = useState<string>("");
@@ -36,71 +107,370 @@ function useChatSession() {
     setIsHydrated(true);
   }, []);
 
+  // Past sessions stay on the server, so starting a new one only swaps the id
   const clearSession = () => {
     const id = uuidv4();
+    switchSession(id);
+    return id;
+  };
+
+  const switchSession = (id: string) => {
     setSessionId(id);
     localStorage.setItem("chatSessionId", id);
-    localStorage.removeItem(`chatHistory:${sessionId}`);
+    postTabMessage({ type: "session-changed", sessionId: id });
   };
 
-  return { sessionId, clearSession, isHydrated };
+  // Another tab opened `id`; it has already stored the choice
+  const followSession = (id: string) => setSessionId(id);
+
+  return { sessionId, clearSession, switchSession, followSession, isHydrated };
 }
 
 export default function HomePage() {
-  const { sessionId, clearSession, isHydrated } = useChatSession();
+  const router = useRouter();
+  const { sessionId, clearSession, switchSession, followSession, isHydrated } = useChatSession();
   const { toast } = useToast();
-  const { selectedStoreIds } = useKnowledgeBaseStore();
+  const saveSession = useSaveChatSession();
+  const { data: savedSessions } = useChatSessions();
+  const { selectedStoreIds, setSelectedStoreIds } = useKnowledgeBaseStore();
+  const { data: vectorStores } = useQuery({
+    queryKey: ["vector-stores"],
+    queryFn: vectorStoreApi.getAll,
+  });
+  const { data: appsData } = useApps();
+  const recordAppRun = useRecordAppRun();
+  const recordUsage = useRecordUsage();
   
-  // Initialize messages - start empty and load from localStorage after hydration
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Initialize the message tree - start empty and load the stored copy after hydration
+  const [tree, setTree] = useState<MessageTree>(EMPTY_TREE);
+  // The branch currently on screen
+  const messages = useMemo(() => getThread(tree), [tree]);
+  // Running totals cover every branch, since abandoned replies were billed too
+  const sessionUsage = useMemo(() => sumUsage(tree.messages), [tree]);
   
   const [input, setInput] = useState("");
   const [images, setImages] = useState<Array<{ data: string; mime_type: string }>>([]);
+  // @-mentions for the next message only
+  const [mentions, setMentions] = useState<ChatMention[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
+  // Another tab is streaming into this session; sending here would fork its history
+  const remoteStreaming = useRemoteStreaming(sessionId, isStreaming);
   const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showShare, setShowShare] = useState(false);
   
-  // Default settings similar to the playground
+  // Replaced by the session's saved settings once it loads
   const [settings, setSettings] = useState<ChatSettings>({
-    top_k: 20,
-    max_docs_for_context: 3,
-    similarity_threshold: 0,
-    include_metadata: false,
-    include_sources: true,
-    include_confidence: false,
-    query_expansion: false,
-    deep_reasoning: false,
-    multi_source_fetch: true,
-    temperature: 0.7,
-    max_tokens: DEFAULT_MAX_TOKENS,
-    system_prompt: "",
-    condense_context: true,
+    ...DEFAULT_CHAT_SETTINGS,
     vector_stores: selectedStoreIds,
-    metadata_filters: {},
   });
+  // App this session chats with; its runs are recorded under this session. Its configuration
+  // is copied into `settings` when selected, so later edits to the session still apply
+  const [appId, setAppId] = useState<string | null>(null);
+  const activeApp = appId ? appsData?.apps.find((app) => app._id === appId) : undefined;
+
+  // What the next request would send, draft included, so the meter and trimming agree
+  const contextPlan = useMemo(() => {
+    const draft: ChatMessage[] =
+      input.trim() || images.length > 0
+        ? [
+            {
+              role: "user",
+              content: [
+                { type: "text" as const, text: input },
+                ...images.map((image) => ({ type: "image" as const, image })),
+              ],
+              timestamp: "",
+            },
+          ]
+        : [];
+    const hasKb = settings.vector_stores?.length > 0;
+    return planContext([...messages.filter(isSendable), ...draft], {
+      systemPrompt: hasKb ? settings.system_prompt : DEFAULT_SYSTEM_PROMPT_NO_KB,
+      maxTokens: settings.max_tokens,
+    });
+  }, [messages, input, images, settings]);
+  const droppedIds = useMemo(
+    () => new Set(contextPlan.dropped.map((m) => m.id)),
+    [contextPlan]
+  );
+
+  // Session the current messages were loaded for; lags sessionId while switching
+  const [loadedSessionId, setLoadedSessionId] = useState("");
+  // Message to scroll to once its session has loaded (search result links)
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
-  const endRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Cleared when the user scrolls up to read, so streaming doesn't drag them back down
+  const stickToBottomRef = useRef(true);
+  // Set when a turn starts so the finished conversation is pushed to the server
+  const pendingSaveRef = useRef(false);
+  // Controller for the in-flight stream so it can be stopped
+  const abortRef = useRef<AbortController | null>(null);
 
-  // Load messages from localStorage after hydration
+  // Load messages after hydration: the browser copy first, then the server copy
   useEffect(() => {
-    if (isHydrated && sessionId) {
-      const saved = localStorage.getItem(`chatHistory:${sessionId}`);
-      if (saved) {
-        setMessages(JSON.parse(saved));
+    if (!isHydrated || !sessionId) return;
+
+    // Sessions saved before settings were kept leave the current ones in place
+    const restoreSettings = (saved: ChatSettings | null | undefined) => {
+      if (!saved) return;
+      setSettings((prev) => ({ ...prev, ...saved }));
+      setSelectedStoreIds(saved.vector_stores ?? []);
+    };
+
+    let cancelled = false;
+    (async () => {
+      try {
+        const stored = await loadChat(sessionId).catch((error) => {
+          console.error("Failed to read stored chat history:", error);
+          return null;
+        });
+        if (cancelled) return;
+        if (stored) {
+          setTree(stored.tree);
+          restoreSettings(stored.settings);
+          setAppId(stored.appId);
+          setLoadedSessionId(sessionId);
+          return;
+        }
+
+        const session = await sessionsApi.getById(sessionId);
+        if (cancelled) return;
+        if (session) {
+          setTree(toMessageTree(session.messages, session.currentLeafId));
+          restoreSettings(session.settings);
+          setAppId(session.appId ?? null);
+        }
+        setLoadedSessionId(sessionId);
+      } catch (error) {
+        console.error("Failed to load chat session:", error);
+        if (!cancelled) {
+          setTree(EMPTY_TREE);
+          setLoadedSessionId(sessionId);
+        }
       }
-    }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isHydrated, sessionId]);
 
-  // Keep localStorage in sync with messages
+  // A full disk is reported once, until a write goes through again
+  const storageFullRef = useRef(false);
+  const handleStorageResult = useCallback(
+    (promise: Promise<void>) => {
+      promise
+        .then(() => {
+          storageFullRef.current = false;
+        })
+        .catch((error) => {
+          console.error("Failed to save chat history:", error);
+          if (storageFullRef.current) return;
+          storageFullRef.current = true;
+          toast({
+            variant: "destructive",
+            title: isQuotaExceeded(error) ? "Browser storage is full" : "Failed to save chat history",
+            description: isQuotaExceeded(error)
+              ? "Recent messages are not saved in this browser. Delete old conversations to free up space."
+              : "Recent messages are not saved in this browser.",
+          });
+        });
+    },
+    [toast]
+  );
+
+  // Set when another tab saves a session, so this tab reloads it from storage
+  const [remoteSave, setRemoteSave] = useState<{ sessionId: string } | null>(null);
+  // Tree last loaded from another tab; writing it back would only echo their save
+  const remoteTreeRef = useRef<MessageTree | null>(null);
+
+  useTabMessages((message) => {
+    if (isStreaming) return;
+    if (message.type === "session-changed" && message.sessionId !== sessionId) {
+      followSession(message.sessionId);
+      setInput("");
+      setImages([]);
+      setMentions([]);
+    }
+    if (message.type === "chat-saved" && message.sessionId === sessionId) {
+      setRemoteSave({ sessionId: message.sessionId });
+    }
+  });
+
+  useEffect(() => {
+    if (!remoteSave || remoteSave.sessionId !== sessionId || loadedSessionId !== sessionId) return;
+    let cancelled = false;
+    loadChat(sessionId)
+      .then((stored) => {
+        if (cancelled || !stored) return;
+        remoteTreeRef.current = stored.tree;
+        setTree(stored.tree);
+      })
+      .catch((error) => console.error("Failed to reload chat history from another tab:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [remoteSave, sessionId, loadedSessionId]);
+
+  // Keep the browser copy in sync with the tree, but only once it belongs to this session
+  useEffect(() => {
+    if (!isHydrated || !sessionId || loadedSessionId !== sessionId) return;
+    if (tree === remoteTreeRef.current) return;
+    const save = () =>
+      handleStorageResult(
+        saveChatTree(sessionId, tree).then(() => postTabMessage({ type: "chat-saved", sessionId }))
+      );
+    if (!isStreaming) {
+      save();
+      return;
+    }
+    const timer = setTimeout(save, HISTORY_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [tree, sessionId, loadedSessionId, isHydrated, isStreaming, handleStorageResult]);
+
   useEffect(() => {
-    if (isHydrated && sessionId) {
-      localStorage.setItem(`chatHistory:${sessionId}`, JSON.stringify(messages));
+    if (isHydrated && sessionId && loadedSessionId === sessionId) {
+      handleStorageResult(saveChatMeta(sessionId, { settings, appId }));
     }
-  }, [messages, sessionId, isHydrated]);
+  }, [settings, appId, sessionId, loadedSessionId, isHydrated, handleStorageResult]);
+
+  // Persist the conversation server-side once a turn has finished streaming
+  useEffect(() => {
+    if (isStreaming || !pendingSaveRef.current || !sessionId) return;
+    pendingSaveRef.current = false;
+    if (tree.messages.length === 0) return;
+
+    saveSession.mutate(
+      {
+        id: sessionId,
+        data: { messages: tree.messages, currentLeafId: tree.currentLeafId, settings, appId },
+      },
+      {
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Failed to save conversation",
+            description: error.message,
+          });
+        },
+      }
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isStreaming, tree, sessionId]);
 
-  // Auto-scroll to bottom when new messages arrive
+  // Stop any in-flight stream when leaving the page
   useEffect(() => {
-    endRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isStreaming]);
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Only the messages on screen are mounted; heights are measured as they render
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => 160,
+    overscan: 4,
+    getItemKey: (index) => messages[index].id ?? index,
+  });
+  const totalSize = virtualizer.getTotalSize();
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    stickToBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < STICK_TO_BOTTOM_PX;
+  };
+
+  // Start each session at its latest message
+  useEffect(() => {
+    stickToBottomRef.current = true;
+  }, [loadedSessionId]);
+
+  // Follow new output while the user is at the bottom; smooth scrolling per chunk fought the stream
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && stickToBottomRef.current) el.scrollTop = el.scrollHeight;
+  }, [messages, isStreaming, totalSize]);
+
+  // Open the session (and message) named in ?session=&message=, then drop the params
+  useEffect(() => {
+    if (!router.isReady || !isHydrated) return;
+    const { session, message } = router.query;
+    if (typeof session !== "string" || !session) return;
+
+    if (!isStreaming) {
+      if (session !== sessionId) switchSession(session);
+      if (typeof message === "string") setFocusMessageId(message);
+    }
+    router.replace("/", undefined, { shallow: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, router.query, isHydrated]);
+
+  // Start a fresh conversation with the App named in ?app= (the App page's "Chat" button).
+  // Waits for the current session to load so its stored settings can't overwrite the App's
+  useEffect(() => {
+    if (!router.isReady || !isHydrated || !appsData || loadedSessionId !== sessionId) return;
+    const { app } = router.query;
+    if (typeof app !== "string" || !app) return;
+
+    const target = appsData.apps.find((a) => a._id === app);
+    if (target && !isStreaming) {
+      if (messages.length > 0) handleNewSession();
+      handleSelectApp(target);
+    }
+    router.replace("/", undefined, { shallow: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, router.query, isHydrated, appsData, loadedSessionId, sessionId]);
+
+  // Run the command palette action named in ?action=, then drop the param. Like ?app=,
+  // it waits for the session to load so restored settings don't undo the action
+  useEffect(() => {
+    if (!router.isReady || !isHydrated || loadedSessionId !== sessionId) return;
+    const { action } = router.query;
+    if (typeof action !== "string" || !action) return;
+
+    if (!isStreaming) {
+      if (action === "new-chat") handleNewSession();
+      if (action === "toggle-deep-reasoning") {
+        setSettings((prev) => ({ ...prev, deep_reasoning: !prev.deep_reasoning }));
+        toast({ title: `Deep reasoning ${settings.deep_reasoning ? "off" : "on"}` });
+      }
+    }
+    router.replace("/", undefined, { shallow: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, router.query, isHydrated, loadedSessionId, sessionId]);
+
+  // Reveal the focused message: switch to its branch, scroll to it and flash it
+  useEffect(() => {
+    if (!focusMessageId || loadedSessionId !== sessionId) return;
+
+    if (!findMessage(tree, focusMessageId)) {
+      setFocusMessageId(null);
+      return;
+    }
+    if (!messages.some((m) => m.id === focusMessageId)) {
+      setTree(selectBranch(tree, focusMessageId));
+      return;
+    }
+
+    // The message may not be mounted yet, so scroll by its position in the list
+    stickToBottomRef.current = false;
+    virtualizer.scrollToIndex(
+      messages.findIndex((m) => m.id === focusMessageId),
+      { align: "center" }
+    );
+    setHighlightedMessageId(focusMessageId);
+    setFocusMessageId(null);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [focusMessageId, loadedSessionId, sessionId, tree, messages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
   // Update settings when selected stores change
   useEffect(() => {
@@ -108,18 +478,184 @@ export default function HomePage() {
   }, [selectedStoreIds]);
 
   const handleNewSession = () => {
-    clearSession();
-    setMessages([]);
+    if (isStreaming) return;
+    setLoadedSessionId(clearSession());
+    setTree(EMPTY_TREE);
     setInput("");
     setImages([]);
+    setMentions([]);
+    setShowHistory(false);
     toast({
       title: "New session started",
-      description: "Previous conversation history has been cleared.",
+      description: "Your previous conversation is saved in the history.",
     });
   };
 
+  const handleSelectSession = (id: string) => {
+    if (isStreaming) return;
+    if (id !== sessionId) {
+      switchSession(id);
+      setInput("");
+      setImages([]);
+      setMentions([]);
+    }
+    setShowHistory(false);
+  };
+
+  const handleSessionDeleted = (id: string) => {
+    deleteChat(id).catch((error) => console.error("Failed to delete stored chat history:", error));
+    if (id === sessionId) {
+      setLoadedSessionId(clearSession());
+      setTree(EMPTY_TREE);
+    }
+  };
+
+  // Copy the App's settings in once; edits made afterwards (settings sheet, /temp, /kb) win
+  const handleSelectApp = (app: App | null) => {
+    setAppId(app?._id ?? null);
+    if (!app) return;
+    const appSettings = getAppChatSettings(app);
+    setSettings((prev) => ({ ...prev, ...appSettings }));
+    setSelectedStoreIds(appSettings.vector_stores || []);
+  };
+
+  // Prefer the title the user gave the session in the history sidebar
+  const getSessionTitle = () =>
+    savedSessions?.sessions.find((s) => s.sessionId === sessionId)?.title ||
+    deriveSessionTitle(messages);
+
+  const handleExport = async (format: ChatExportFormat) => {
+    const title = getSessionTitle();
+    try {
+      await exportChat(format, title, tree);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Could not export the conversation",
+      });
+    }
+  };
+
+  // Restore a JSON export as a new session, leaving the current one untouched
+  const handleImport = async (file: File) => {
+    if (isStreaming) return;
+
+    let imported;
+    try {
+      imported = parseChatExport(await file.text());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not read the file",
+      });
+      return;
+    }
+
+    const id = clearSession();
+    setLoadedSessionId(id);
+    setTree(imported.tree);
+    setInput("");
+    setImages([]);
+    setMentions([]);
+
+    saveSession.mutate(
+      {
+        id,
+        data: {
+          title: imported.title,
+          messages: imported.tree.messages,
+          currentLeafId: imported.tree.currentLeafId,
+        },
+      },
+      {
+        onError: (error) => {
+          toast({
+            variant: "destructive",
+            title: "Failed to save imported conversation",
+            description: error.message,
+          });
+        },
+      }
+    );
+    toast({
+      title: "Conversation imported",
+      description: `"${imported.title}" was opened as a new session.`,
+    });
+  };
+
+  // Run a slash command from the chat input; the input is kept when it fails
+  const handleSlashCommand = ({ name, args }: ParsedSlashCommand) => {
+    const fail = (description: string) =>
+      toast({ variant: "destructive", title: `/${name}`, description });
+    const done = (description: string) => {
+      setInput("");
+      toast({ title: `/${name}`, description });
+    };
+    const usage = SLASH_COMMANDS.find((c) => c.name === name)!.usage;
+
+    switch (name) {
+      case "kb": {
+        if (!args) return fail(`Usage: ${usage}`);
+        if (args.toLowerCase() === "none") {
+          setSelectedStoreIds([]);
+          return done("Knowledge bases cleared.");
+        }
+        const { matched, unknown } = resolveNames(args, vectorStores || [], (store) => store.name);
+        if (unknown.length > 0) return fail(`Unknown knowledge base: ${unknown.join(", ")}`);
+        setSelectedStoreIds(matched.map((store) => store.store_id));
+        return done(`Using ${matched.map((store) => store.name).join(", ")}.`);
+      }
+
+      case "temp": {
+        const value = Number(args);
+        if (!args || Number.isNaN(value) || value < 0 || value > 1) {
+          return fail(`Usage: ${usage}`);
+        }
+        setSettings((prev) => ({ ...prev, temperature: value }));
+        return done(`Temperature set to ${value}.`);
+      }
+
+      case "topk": {
+        const value = Number(args);
+        if (!Number.isInteger(value) || value < 1 || value > 20) {
+          return fail(`Usage: ${usage}`);
+        }
+        setSettings((prev) => ({ ...prev, top_k: value }));
+        return done(`Top K set to ${value}.`);
+      }
+
+      case "new":
+        setInput("");
+        return handleNewSession();
+
+      case "app": {
+        if (!args) return fail(`Usage: ${usage}`);
+        if (args.toLowerCase() === "none") {
+          handleSelectApp(null);
+          return done("No longer chatting with an App.");
+        }
+        const { matched } = resolveNames(args, appsData?.apps || [], (app) => app.name);
+        const app = matched[0];
+        if (!app) return fail(`No App named "${args}".`);
+        handleSelectApp(app);
+        return done(`Chatting with "${app.name}".`);
+      }
+
+      case "export": {
+        const format = EXPORT_FORMAT_ALIASES[(args || "markdown").toLowerCase()];
+        if (!format) return fail(`Usage: ${usage}`);
+        if (messages.length === 0) return fail("There is nothing to export yet.");
+        setInput("");
+        return handleExport(format);
+      }
+    }
+  };
+
   const sendMessage = async () => {
-    if ((!input.trim() && images.length === 0) || isStreaming || !isHydrated) return;
+    if ((!input.trim() && images.length === 0) || isStreaming || remoteStreaming || !isHydrated) return;
+    if (loadedSessionId !== sessionId) return;
 
     // Create multimodal content if images are present
     let content: string | Array<{type: 'text' | 'image'; text?: string; image?: {data: string; mime_type: string}}>;
@@ -154,78 +690,299 @@ export default function HomePage() {
     }
 
     const userMsg: ChatMessage = {
+      id: createMessageId(),
       role: "user",
       content,
       timestamp: new Date().toISOString(),
+      ...(mentions.length > 0 && { mentions }),
     };
 
-    setMessages((prev) => [...prev, userMsg]);
     setInput("");
     setImages([]);
-    setIsStreaming(true);
+    setMentions([]);
+    await streamAssistantReply(appendMessage(tree, userMsg));
+  };
+
+  // Snapshot of the question, answer and retrieval settings behind a reply
+  const getFeedbackContext = (reply: ChatMessage): FeedbackContext => {
+    const question = findMessage(tree, reply.parent_id);
+    const scope = question?.mentions?.length
+      ? getMentionScope(question.mentions, settings.metadata_filters)
+      : null;
+    const searched = scope?.vector_stores ?? settings.vector_stores ?? [];
+    return {
+      origin: "chat",
+      question: question ? getMessageText(question) : "",
+      answer: getMessageText(reply),
+      sources: reply.sources ?? [],
+      settings: { ...settings, ...scope },
+      storeIds: [...new Set([...searched, ...(reply.sources ?? []).map((s) => s.store_id)])],
+      sessionId,
+      messageId: reply.id,
+      ...(reply.app_id && { appId: reply.app_id }),
+    };
+  };
+
+  const handleFeedbackSaved = (messageId: string, feedback: ChatMessage["feedback"]) => {
+    pendingSaveRef.current = true;
+    setTree((prev) => updateMessage(prev, messageId, () => ({ feedback })));
+  };
+
+  // Stream a new assistant reply under the leaf of `base`, which must be a user message
+  const streamAssistantReply = async (base: MessageTree) => {
+    const history = getThread(base);
 
     // Create placeholder assistant message
+    const assistantId = createMessageId();
     const assistantMsg: ChatMessage = {
+      id: assistantId,
       role: "assistant",
       content: "",
       timestamp: new Date().toISOString(),
+      status: "streaming",
+      ...(activeApp && { app_id: activeApp._id }),
     };
-    setMessages((prev) => [...prev, assistantMsg]);
+    setTree(appendMessage(base, assistantMsg));
+    setIsStreaming(true);
+    pendingSaveRef.current = true;
+    stickToBottomRef.current = true;
+
+    // Chunks often arrive faster than the screen refreshes; apply them once per frame
+    const replyUpdates = createFrameBatcher<(reply: ChatMessage) => Partial<ChatMessage>>(
+      (patches) => {
+        setTree((prev) =>
+          updateMessage(prev, assistantId, (reply) =>
+            patches.reduce<ChatMessage>((next, patch) => ({ ...next, ...patch(next) }), reply)
+          )
+        );
+      }
+    );
+    const updateReply = replyUpdates.push;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     // --------------------------------------------------------------
     // 1️⃣  Detect "no knowledge‑base selected"
     // --------------------------------------------------------------
-    const noKb = !settings.vector_stores || settings.vector_stores.length === 0;
+    // @-mentions on the question override the selected knowledge bases for this turn
+    const question = [...history].reverse().find((m) => m.role === "user");
+    const mentionScope = question?.mentions?.length
+      ? getMentionScope(question.mentions, settings.metadata_filters)
+      : null;
+    const app = activeApp;
+    const noKb =
+      !mentionScope &&
+      (!settings.vector_stores || settings.vector_stores.length === 0);
 
     // --------------------------------------------------------------
     // 2️⃣  Prepare chat request with appropriate system prompt
     // --------------------------------------------------------------
+    const systemPrompt = noKb ? DEFAULT_SYSTEM_PROMPT_NO_KB : settings.system_prompt;
+    // Oldest turns are left out once the thread outgrows the context window
+    const { kept } = planContext(history.filter(isSendable), {
+      systemPrompt,
+      maxTokens: settings.max_tokens,
+    });
+
     const request: ChatRequest = {
       session_id: sessionId,
-      messages: [...messages, userMsg],
+      messages: kept
+        // Reasoning traces, usage, confidence and ratings are for display only; don't send them back as context
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        .map(({ reasoning, reasoning_ms, usage, confidence, mentions, feedback, app_id, ...m }) => m),
       ...settings,
+      ...mentionScope,
       // Send an empty array when no KB – the backend treats this as "no KB"
-      vector_stores: noKb ? [] : settings.vector_stores,
+      vector_stores: noKb ? [] : mentionScope?.vector_stores ?? settings.vector_stores,
       // Use the no‑KB system prompt when appropriate
-      system_prompt: noKb ? DEFAULT_SYSTEM_PROMPT_NO_KB : settings.system_prompt,
+      system_prompt: systemPrompt,
+    };
+
+    // Kept alongside the tree updates so the finished turn can be recorded as an AppRun
+    let answer = "";
+    let sources: SourceDocument[] = [];
+    let usage = null as QueryUsage | null;
+    let failed = false;
+
+    // Reasoning streams first; the first answer token ends the reasoning phase
+    let reasoningStartedAt: number | null = null;
+    const finishReasoning = () => {
+      if (reasoningStartedAt === null) return;
+      const reasoningMs = Date.now() - reasoningStartedAt;
+      reasoningStartedAt = null;
+      updateReply(() => ({ reasoning_ms: reasoningMs }));
     };
 
     await streamChat(
       request,
       (chunk) => {
-        setMessages((prev) => {
-          const last = prev[prev.length - 1];
-          if (last.role !== "assistant") return prev;
-          
-          const updated: ChatMessage = {
-            ...last,
-            content: last.content + chunk.content,
-            sources: chunk.sources ?? last.sources,
-            confidence: chunk.usage?.total_tokens,
-          };
-          
-          return [...prev.slice(0, -1), updated];
-        });
-        
-        if (chunk.is_final) {
-          setIsStreaming(false);
+        switch (chunk.type) {
+          case "reasoning":
+            reasoningStartedAt ??= Date.now();
+            updateReply((reply) => ({ reasoning: (reply.reasoning || "") + chunk.content }));
+            break;
+          case "content":
+            if (chunk.content) finishReasoning();
+            answer += chunk.content;
+            updateReply((reply) => ({
+              content: reply.content + chunk.content,
+              ...(chunk.is_final && { status: "complete" as const }),
+            }));
+            break;
+          case "sources":
+            sources = chunk.sources;
+            updateReply(() => ({ sources: chunk.sources }));
+            break;
+          case "done":
+            updateReply((reply) =>
+              reply.status === "streaming" ? { status: "complete" } : {}
+            );
+            break;
+          case "usage":
+            usage = chunk.usage;
+            updateReply(() => ({ usage: chunk.usage }));
+            break;
+          case "confidence":
+            updateReply(() => ({ confidence: chunk.confidence }));
+            break;
         }
       },
       (error) => {
-        setIsStreaming(false);
+        failed = true;
         toast({
           variant: "destructive",
           title: "Error",
           description: error.message,
         });
-        
-        // Remove the placeholder message on error
-        setMessages((prev) => prev.slice(0, -1));
-      }
+
+        // Keep whatever arrived so far and let the user retry
+        updateReply(() => ({ status: "error", error: error.message }));
+      },
+      controller.signal
+    );
+
+    finishReasoning();
+
+    // Settle a reply the stream left open (stopped, or closed without is_final)
+    updateReply((reply) =>
+      reply.status === "streaming"
+        ? { status: controller.signal.aborted ? "stopped" : "complete" }
+        : {}
     );
+    replyUpdates.flush();
+    abortRef.current = null;
+    setIsStreaming(false);
+
+    // Billed even when the reply failed or was stopped, so record whatever was reported
+    if (usage) {
+      recordUsage.mutate({
+        origin: "chat",
+        ...usage,
+        appId: app?._id,
+        sessionId,
+        messageId: assistantId,
+      });
+    }
+
+    if (app && !failed && !controller.signal.aborted && answer.trim()) {
+      recordAppRun.mutate(
+        {
+          id: app._id,
+          data: {
+            question: question ? getMessageText(question) : undefined,
+            answer,
+            sourceDocuments: sources,
+            sessionId,
+            messageId: assistantId,
+          },
+        },
+        { onError: (error) => console.error("Failed to record app run:", error) }
+      );
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
   };
 
+  // Regenerate (or retry) a reply as a new sibling branch of the same question
+  const handleRegenerate = async (replyId: string) => {
+    const reply = findMessage(tree, replyId);
+    if (isStreaming || remoteStreaming || !reply || reply.role !== "assistant") return;
+    await streamAssistantReply(branchFrom(tree, reply.parent_id));
+  };
+
+  // Resend an edited question as a sibling of the original, keeping the old branch
+  const handleEditMessage = async (messageId: string, text: string) => {
+    const original = findMessage(tree, messageId);
+    if (isStreaming || remoteStreaming || !original || original.role !== "user") return;
+
+    const trimmed = text.trim();
+    const imageParts = Array.isArray(original.content)
+      ? original.content.filter((part) => part.type === "image")
+      : [];
+    if (!trimmed && imageParts.length === 0) return;
+
+    const edited: ChatMessage = {
+      id: createMessageId(),
+      role: "user",
+      content:
+        imageParts.length > 0
+          ? [...(trimmed ? [{ type: "text" as const, text: trimmed }] : []), ...imageParts]
+          : trimmed,
+      timestamp: new Date().toISOString(),
+      mentions: original.mentions,
+    };
+    await streamAssistantReply(appendMessage(branchFrom(tree, original.parent_id), edited));
+  };
 
+  // Step to the previous/next sibling branch of a message
+  const handleSwitchBranch = (messageId: string, offset: number) => {
+    if (isStreaming) return;
+    const siblings = getSiblings(tree, messageId);
+    const index = siblings.findIndex((m) => m.id === messageId);
+    const target = siblings[index + offset];
+    if (target?.id) setTree(selectBranch(tree, target.id));
+  };
+
+  // Message bubbles are memoized, so they get stable callbacks that call the latest handlers;
+  // otherwise every bubble would re-render on each streamed frame
+  const messageHandlersRef = useRef({
+    handleRegenerate,
+    handleEditMessage,
+    handleSwitchBranch,
+    getFeedbackContext,
+    handleFeedbackSaved,
+  });
+  messageHandlersRef.current = {
+    handleRegenerate,
+    handleEditMessage,
+    handleSwitchBranch,
+    getFeedbackContext,
+    handleFeedbackSaved,
+  };
+  const regenerateMessage = useCallback(
+    (messageId: string) => messageHandlersRef.current.handleRegenerate(messageId),
+    []
+  );
+  const editMessage = useCallback(
+    (messageId: string, text: string) => messageHandlersRef.current.handleEditMessage(messageId, text),
+    []
+  );
+  const switchBranch = useCallback(
+    (messageId: string, offset: number) => messageHandlersRef.current.handleSwitchBranch(messageId, offset),
+    []
+  );
+  const getMessageFeedbackContext = useCallback(
+    (message: ChatMessage) => messageHandlersRef.current.getFeedbackContext(message),
+    []
+  );
+  const saveMessageFeedback = useCallback(
+    (messageId: string, feedback: ChatMessage["feedback"]) =>
+      messageHandlersRef.current.handleFeedbackSaved(messageId, feedback),
+    []
+  );
 
   // Show loading state until hydrated
   if (!isHydrated) {
@@ -248,16 +1005,41 @@ export default function HomePage() {
 
   return (
     <div className="flex flex-col h-full bg-gray-50">
+      {/* Session header with context window usage and running usage totals */}
+      {messages.length > 0 && (
+        <div className="z-10 flex justify-center border-b bg-gray-50/90 backdrop-blur py-2">
+          <div className="flex w-[55%] items-center justify-between gap-2 text-xs text-muted-foreground">
+            <ContextMeter
+              estimate={contextPlan.estimate}
+              droppedCount={contextPlan.dropped.length}
+            />
+            {sessionUsage.total_tokens > 0 && (
+              <div className="flex items-center gap-2">
+                <Coins className="h-3 w-3" />
+                <span>
+                  Session: {formatTokens(sessionUsage.total_tokens)} tokens · {formatCost(sessionUsage.cost_usd)}
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Messages container */}
-      <div className="flex-1 overflow-y-auto pb-64">
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto pb-64">
         {messages.length === 0 ? (
           <div className="flex items-center justify-center h-full text-center p-8">
             <div className="space-y-4 max-w-md">
               <MessageCircle className="h-16 w-16 text-muted-foreground mx-auto" />
               <div className="space-y-2">
-                <h2 className="text-xl font-semibold">Start a conversation</h2>
+                <h2 className="text-xl font-semibold">
+                  {activeApp ? `Chat with ${activeApp.name}` : "Start a conversation"}
+                </h2>
                 <p className="text-muted-foreground">
-                  Chat with the AI using its general knowledge, or select knowledge bases for document-specific answers. The conversation context will be maintained throughout the session.
+                  {activeApp
+                    ? activeApp.description ||
+                      "Each answer uses this App's prompt, settings and knowledge base, and is recorded in its run history."
+                    : "Chat with the AI using its general knowledge, or select knowledge bases for document-specific answers. The conversation context will be maintained throughout the session."}
                 </p>
               </div>
               <div className="text-sm text-muted-foreground space-y-1">
@@ -269,10 +1051,44 @@ export default function HomePage() {
           </div>
         ) : (
           <div className="space-y-0">
-            {messages.map((message, index) => (
-              <MessageBubble key={index} message={message} />
-            ))}
-            
+            <div className="relative w-full" style={{ height: totalSize }}>
+              {virtualizer.getVirtualItems().map((item) => {
+                const message = messages[item.index];
+                const isLastReply =
+                  item.index === messages.length - 1 && message.role === "assistant" && !isStreaming;
+                const siblings = message.id ? getSiblings(tree, message.id) : [];
+                return (
+                  <div
+                    key={item.key}
+                    ref={virtualizer.measureElement}
+                    data-index={item.index}
+                    className="absolute left-0 top-0 w-full"
+                    style={{ transform: `translateY(${item.start}px)` }}
+                  >
+                    <MessageBubble
+                      message={message}
+                      highlighted={!!message.id && message.id === highlightedMessageId}
+                      excluded={!!message.id && droppedIds.has(message.id)}
+                      onRegenerate={isLastReply ? regenerateMessage : undefined}
+                      onEdit={message.role === "user" && !isStreaming ? editMessage : undefined}
+                      branchIndex={siblings.findIndex((m) => m.id === message.id)}
+                      branchCount={siblings.length}
+                      onSwitchBranch={switchBranch}
+                      branchDisabled={isStreaming}
+                      getFeedbackContext={
+                        message.role === "assistant" &&
+                        message.status !== "streaming" &&
+                        message.status !== "error"
+                          ? getMessageFeedbackContext
+                          : undefined
+                      }
+                      onFeedbackChange={saveMessageFeedback}
+                    />
+                  </div>
+                );
+              })}
+            </div>
+
             {/* Streaming indicator */}
             {isStreaming && (
               <div className="flex justify-center items-center px-4 py-2 w-full">
@@ -282,8 +1098,14 @@ export default function HomePage() {
                 </div>
               </div>
             )}
-            
-            <div ref={endRef} />
+            {remoteStreaming && (
+              <div className="flex justify-center items-center px-4 py-2 w-full">
+                <div className="flex items-center gap-2 text-muted-foreground text-sm w-1/2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  <span>Another tab is answering in this conversation...</span>
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
@@ -293,12 +1115,31 @@ export default function HomePage() {
         input={input}
         setInput={setInput}
         onSendMessage={sendMessage}
+        onCommand={handleSlashCommand}
+        onStop={handleStop}
         onNewSession={handleNewSession}
+        onOpenHistory={() => setShowHistory(true)}
         onOpenSettings={() => setShowSettings(true)}
+        onExport={handleExport}
+        onImport={handleImport}
+        onShare={() => setShowShare(true)}
+        canExport={messages.length > 0}
         isStreaming={isStreaming}
-        disabled={false}
+        disabled={remoteStreaming}
         images={images}
         setImages={setImages}
+        mentions={mentions}
+        setMentions={setMentions}
+        activeAppId={appId}
+        onSelectApp={handleSelectApp}
+      />
+
+      <ShareDialog
+        open={showShare}
+        onOpenChange={setShowShare}
+        kind="chat"
+        sourceId={sessionId}
+        getSnapshot={() => ({ title: getSessionTitle(), messages: toSharedMessages(messages) })}
       />
 
       {/* Settings */}
@@ -314,7 +1155,17 @@ export default function HomePage() {
           setSettings(newSettings);
         }}
         variant="sheet"
-        title="Chat Settings"
+        title={activeApp ? `Chat Settings · ${activeApp.name}` : "Chat Settings"}
+      />
+
+      {/* Session history */}
+      <ChatSessionSidebar
+        open={showHistory}
+        onClose={() => setShowHistory(false)}
+        activeSessionId={sessionId}
+        onSelectSession={handleSelectSession}
+        onNewSession={handleNewSession}
+        onSessionDeleted={handleSessionDeleted}
       />
     </div>
   );
@@ -0,0 +1,268 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { BookText, Edit, History, Plus, RotateCcw, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ConfirmationDialog } from "@/components/ConfirmationDialog";
+import { PromptEditorDialog } from "@/components/PromptEditorDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useDeletePrompt, usePrompts, useUpdatePrompt } from "@/hooks/prompts";
+import { extractVariables } from "@/lib/prompts";
+import { Prompt, PromptVersion } from "@/types/prompt";
+
+export default function PromptsPage() {
+  const [search, setSearch] = useState("");
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Prompt | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [historyFor, setHistoryFor] = useState<Prompt | null>(null);
+  const [deleting, setDeleting] = useState<Prompt | null>(null);
+  const { toast } = useToast();
+
+  const { data, isLoading, error } = usePrompts();
+  const updatePrompt = useUpdatePrompt();
+  const deletePrompt = useDeletePrompt();
+
+  const allTags = useMemo(
+    () => Array.from(new Set(data?.prompts.flatMap((p) => p.tags) ?? [])).sort(),
+    [data]
+  );
+
+  const filteredPrompts = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (data?.prompts ?? []).filter((prompt) => {
+      if (activeTag && !prompt.tags.includes(activeTag)) return false;
+      if (!term) return true;
+      return [prompt.name, prompt.description ?? "", prompt.content].some((text) =>
+        text.toLowerCase().includes(term)
+      );
+    });
+  }, [data, search, activeTag]);
+
+  const openEditor = (prompt: Prompt | null) => {
+    setEditing(prompt);
+    setShowEditor(true);
+  };
+
+  const handleRestore = async (prompt: Prompt, version: PromptVersion) => {
+    try {
+      const restored = await updatePrompt.mutateAsync({
+        id: prompt._id,
+        data: { content: version.content },
+      });
+      setHistoryFor(restored);
+      toast({
+        title: "Version restored",
+        description: `"${prompt.name}" now uses the version from ${formatDate(version.createdAt)}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to restore version",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deletePrompt.mutateAsync(deleting._id);
+      toast({
+        title: "Prompt deleted",
+        description: `"${deleting.name}" has been removed from the library.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete prompt",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "MMM dd, yyyy HH:mm");
+    } catch {
+      return "";
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-5xl">
+      {/* Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Prompt Library</h1>
+          <p className="text-muted-foreground">
+            Reusable system prompts for chat, the query playground and apps.
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Prompt
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-6 space-y-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search prompts..."
+            className="pl-9 bg-white"
+          />
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {allTags.map((tag) => (
+              <Badge
+                key={tag}
+                variant={activeTag === tag ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              >
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <Skeleton key={i} className="h-32 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {error instanceof Error ? error.message : "Failed to load prompts"}
+          </AlertDescription>
+        </Alert>
+      ) : filteredPrompts.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <BookText className="mx-auto h-12 w-12 mb-4 opacity-50" />
+          <p>
+            {data?.prompts.length
+              ? "No prompts match these filters."
+              : "No saved prompts yet. Save one from any system prompt field or create it here."}
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {filteredPrompts.map((prompt) => {
+            const variables = extractVariables(prompt.content);
+            return (
+              <Card key={prompt._id}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <h3 className="font-semibold truncate">{prompt.name}</h3>
+                      {prompt.description && (
+                        <p className="text-sm text-muted-foreground">{prompt.description}</p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEditor(prompt)}>
+                        <Edit className="h-4 w-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setHistoryFor(prompt)}
+                        disabled={prompt.versions.length === 0}
+                      >
+                        <History className="h-4 w-4 mr-1" />
+                        History ({prompt.versions.length})
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => setDeleting(prompt)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <pre className="max-h-32 overflow-hidden whitespace-pre-wrap rounded-md bg-muted px-3 py-2 font-mono text-xs">
+                    {prompt.content}
+                  </pre>
+
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    {prompt.tags.map((tag) => (
+                      <Badge key={tag} variant="outline">
+                        #{tag}
+                      </Badge>
+                    ))}
+                    {variables.map((variable) => (
+                      <Badge key={variable} variant="secondary" className="font-mono">
+                        {`{{${variable}}}`}
+                      </Badge>
+                    ))}
+                    <span className="ml-auto">Updated {formatDate(prompt.updatedAt)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <PromptEditorDialog open={showEditor} onOpenChange={setShowEditor} prompt={editing} />
+
+      {/* Version history */}
+      <Dialog open={!!historyFor} onOpenChange={(open) => !open && setHistoryFor(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Version History</DialogTitle>
+            <DialogDescription>
+              Earlier versions of &quot;{historyFor?.name}&quot;. Restoring one keeps the current
+              version in the history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {historyFor?.versions.map((version, index) => (
+              <div key={`${version.createdAt}-${index}`} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{formatDate(version.createdAt)}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleRestore(historyFor, version)}
+                    disabled={updatePrompt.isPending || version.content === historyFor.content}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+                <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap font-mono text-xs">
+                  {version.content}
+                </pre>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmationDialog
+        open={!!deleting}
+        onOpenChange={(open) => !open && setDeleting(null)}
+        title="Delete prompt"
+        description={`Delete "${deleting?.name}" and its version history? Fields that already use it are not affected.`}
+        confirmText="Delete"
+        onConfirm={handleDelete}
+        destructive
+      />
+    </div>
+  );
+}
@@ -1,8 +1,6 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useCallback } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Search, Settings, FileText, Copy, Check, Download, Plus } from "lucide-react";
-import ReactMarkdown from "react-markdown";
-import remarkGfm from "remark-gfm";
+import { Search, Settings, FileText, Copy, Check, Download, Plus, Columns2, Grid3x3 } from "lucide-react";
 import jsPDF from "jspdf";
 import html2canvas from "html2canvas";
 import { Button } from "@/components/ui/button";
@@ -17,10 +15,20 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { SourceDocumentCard } from "@/components/SourceDocumentCard";
+import { Markdown } from "@/components/Markdown";
 import { AddToSourcesModal } from "@/components/AddToSourcesModal";
+import { FeedbackControls } from "@/components/FeedbackControls";
 import { ImageUploader } from "@/components/ImageUploader";
+import { SettingsProfileMenu } from "@/components/SettingsProfileMenu";
+import { PromptPicker } from "@/components/PromptPicker";
+import { CompareView } from "@/components/query/CompareView";
+import { SweepView } from "@/components/query/SweepView";
 import { vectorStoreApi, queryApi } from "@/lib/api";
+import { applyProfileSettings } from "@/lib/settings-profiles";
+import { useCitationFocus } from "@/hooks/use-citations";
+import { useRecordUsage } from "@/hooks/usage";
 import { QueryRequest, QueryResponse } from "@/types/api";
+import { FeedbackContext, FeedbackState } from "@/types/feedback";
 import { MAX_COMPLETION_TOKENS, MIN_COMPLETION_TOKENS, TOKEN_STEP_SIZE, DEFAULT_MAX_TOKENS } from "@/constants/tokens";
 
 export default function QueryPlayground() {
@@ -44,9 +52,15 @@ export default function QueryPlayground() {
     images: [],                     // <-- NEW state property for images
   });
 
+  // "compare" runs several variants side by side; "sweep" runs a grid of retrieval settings
+  const [mode, setMode] = useState<"single" | "compare" | "sweep">("single");
+
   // Query execution state
   const [isQuerying, setIsQuerying] = useState(false);
   const [queryResult, setQueryResult] = useState<QueryResponse | null>(null);
+  // The request behind queryResult; the form may have changed since
+  const [resultRequest, setResultRequest] = useState<QueryRequest | null>(null);
+  const [resultFeedback, setResultFeedback] = useState<FeedbackState>();
   const [queryError, setQueryError] = useState<string | null>(null);
   
   // Copy functionality state
@@ -59,6 +73,19 @@ export default function QueryPlayground() {
   // Add to Sources modal state
   const [showAddToSourcesModal, setShowAddToSourcesModal] = useState(false);
 
+  // Inline [n] citations in the answer, linked to the source cards below
+  const [sourcesPanel, setSourcesPanel] = useState("");
+  const { highlighted, focusSource, registerSource } = useCitationFocus();
+  const recordUsage = useRecordUsage();
+
+  const handleCitationSelect = useCallback(
+    (index: number) => {
+      setSourcesPanel("sources");
+      focusSource(index);
+    },
+    [focusSource]
+  );
+
   // Fetch available vector stores for the dropdown
   const {
     data: vectorStores,
@@ -125,7 +152,10 @@ export default function QueryPlayground() {
       };
       
       const result = await queryApi.query(payload);
+      if (result.usage) recordUsage.mutate({ origin: "query", ...result.usage });
       setQueryResult(result);
+      setResultRequest(payload);
+      setResultFeedback(undefined);
     } catch (error) {
       setQueryError(error instanceof Error ? error.message : "Failed to execute query");
       setQueryResult(null);
@@ -134,6 +164,20 @@ export default function QueryPlayground() {
     }
   };
 
+  const getFeedbackContext = (): FeedbackContext => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { question, images, ...settings } = resultRequest ?? formState;
+    const sources = queryResult?.sources ?? [];
+    return {
+      origin: "query",
+      question,
+      answer: queryResult?.response ?? "",
+      sources,
+      settings,
+      storeIds: [...new Set([...settings.vector_stores, ...sources.map((s) => s.store_id)])],
+    };
+  };
+
   // Copy answer to clipboard
   const handleCopyAnswer = async () => {
     if (!queryResult?.response) return;
@@ -238,11 +282,29 @@ export default function QueryPlayground() {
   return (
     <div className="space-y-6 p-4">
       {/* Page Header */}
-      <div>
-        <h1 className="text-3xl font-bold tracking-tight">Query Playground</h1>
-        <p className="text-muted-foreground">
-          Interactive interface for running RAG queries with detailed configuration.
-        </p>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Query Playground</h1>
+          <p className="text-muted-foreground">
+            Interactive interface for running RAG queries with detailed configuration.
+          </p>
+        </div>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as typeof mode)}>
+          <TabsList>
+            <TabsTrigger value="single">
+              <Search className="h-4 w-4 mr-2" />
+              Single
+            </TabsTrigger>
+            <TabsTrigger value="compare">
+              <Columns2 className="h-4 w-4 mr-2" />
+              Compare
+            </TabsTrigger>
+            <TabsTrigger value="sweep">
+              <Grid3x3 className="h-4 w-4 mr-2" />
+              Sweep
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
       </div>
 
       {/* Two-panel layout */}
@@ -279,9 +341,21 @@ export default function QueryPlayground() {
                 />
               </div>
 
+              {/* Saved Profiles */}
+              <SettingsProfileMenu
+                settings={formState}
+                onApply={(profile) => setFormState((prev) => applyProfileSettings(prev, profile))}
+              />
+
               {/* System Prompt */}
               <div className="space-y-2">
-                <Label htmlFor="system-prompt">System Prompt (Optional)</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="system-prompt">System Prompt (Optional)</Label>
+                  <PromptPicker
+                    onInsert={(content) => updateFormField("system_prompt", content)}
+                    currentContent={formState.system_prompt}
+                  />
+                </div>
                 <Textarea
                   id="system-prompt"
                   placeholder="Custom instructions for the AI assistant..."
@@ -506,246 +580,229 @@ export default function QueryPlayground() {
                 </TabsContent>
               </Tabs>
 
-              {/* Submit Button */}
-              <Button
-                onClick={handleSubmitQuery}
-                disabled={isSubmitDisabled}
-                className="w-full"
-                size="lg"
-              >
-                {isQuerying ? (
-                  <span className="flex items-center gap-2">
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                    Generating Answer...
-                  </span>
-                ) : (
-                  <span className="flex items-center gap-2">
-                    <Search className="h-4 w-4" />
-                    Generate Answer
-                  </span>
-                )}
-              </Button>
+              {/* Submit Button; comparisons and sweeps are run from their own panel */}
+              {mode === "single" && (
+                <Button
+                  onClick={handleSubmitQuery}
+                  disabled={isSubmitDisabled}
+                  className="w-full"
+                  size="lg"
+                >
+                  {isQuerying ? (
+                    <span className="flex items-center gap-2">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                      Generating Answer...
+                    </span>
+                  ) : (
+                    <span className="flex items-center gap-2">
+                      <Search className="h-4 w-4" />
+                      Generate Answer
+                    </span>
+                  )}
+                </Button>
+              )}
             </CardContent>
           </Card>
         </div>
 
         {/* Right Panel - Results */}
         <div className="space-y-6 col-span-2">
-          <Card className="min-h-[600px]">
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <FileText className="h-5 w-5" />
-                Results
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              {/* Initial State */}
-              {!queryResult && !queryError && !isQuerying && (
-                <div className="flex items-center justify-center h-96 text-center">
-                  <div className="space-y-2">
-                    <Search className="h-12 w-12 text-muted-foreground mx-auto" />
-                    <p className="text-lg font-medium text-muted-foreground">
-                      Your results will appear here
-                    </p>
-                    <p className="text-sm text-muted-foreground">
-                      Configure your query and click &quot;Generate Answer&quot; to get started
-                    </p>
+          {mode === "compare" ? (
+            <Card className="min-h-[600px]">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Columns2 className="h-5 w-5" />
+                  Compare Configurations
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CompareView base={formState} />
+              </CardContent>
+            </Card>
+          ) : mode === "sweep" ? (
+            <Card className="min-h-[600px]">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Grid3x3 className="h-5 w-5" />
+                  Parameter Sweep
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <SweepView base={formState} />
+              </CardContent>
+            </Card>
+          ) : (
+            <Card className="min-h-[600px]">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <FileText className="h-5 w-5" />
+                  Results
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {/* Initial State */}
+                {!queryResult && !queryError && !isQuerying && (
+                  <div className="flex items-center justify-center h-96 text-center">
+                    <div className="space-y-2">
+                      <Search className="h-12 w-12 text-muted-foreground mx-auto" />
+                      <p className="text-lg font-medium text-muted-foreground">
+                        Your results will appear here
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        Configure your query and click &quot;Generate Answer&quot; to get started
+                      </p>
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Loading State */}
-              {isQuerying && (
-                <div className="space-y-4">
-                  <div className="flex items-center gap-2 text-muted-foreground">
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
-                    <span>Processing your query...</span>
-                  </div>
-                  <div className="space-y-3">
-                    <Skeleton className="h-4 w-full" />
-                    <Skeleton className="h-4 w-3/4" />
-                    <Skeleton className="h-4 w-1/2" />
+                {/* Loading State */}
+                {isQuerying && (
+                  <div className="space-y-4">
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                      <span>Processing your query...</span>
+                    </div>
+                    <div className="space-y-3">
+                      <Skeleton className="h-4 w-full" />
+                      <Skeleton className="h-4 w-3/4" />
+                      <Skeleton className="h-4 w-1/2" />
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
 
-              {/* Error State */}
-              {queryError && (
-                <Alert variant="destructive">
-                  <AlertDescription>{queryError}</AlertDescription>
-                </Alert>
-              )}
+                {/* Error State */}
+                {queryError && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{queryError}</AlertDescription>
+                  </Alert>
+                )}
 
-              {/* Success State */}
-              {queryResult && queryResult.response && (
-                <div className="space-y-6">
-                  {/* Answer Card */}
-                  <div>
-                    <CardHeader>
-                      <div className="flex items-center justify-between">
-                        <CardTitle className="text-lg">Answer</CardTitle>
-                        <div className="flex items-center gap-2">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={handleCopyAnswer}
-                            className="flex items-center gap-2"
-                          >
-                            {isCopied ? (
-                              <>
-                                <Check className="h-4 w-4 text-green-600" />
-                                <span className="text-green-600">Copied!</span>
-                              </>
-                            ) : (
-                              <>
-                                <Copy className="h-4 w-4" />
-                                Copy
-                              </>
-                            )}
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={handleDownloadPDF}
-                            disabled={isDownloadingPDF}
-                            className="flex items-center gap-2"
-                          >
-                            {isDownloadingPDF ? (
-                              <>
-                                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
-                                <span>Generating...</span>
-                              </>
-                            ) : (
-                              <>
-                                <Download className="h-4 w-4" />
-                                PDF
-                              </>
-                            )}
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => setShowAddToSourcesModal(true)}
-                            className="flex items-center gap-2"
-                          >
-                            <Plus className="h-4 w-4" />
-                            Add to Sources
-                          </Button>
-                        </div>
-                      </div>
-                    </CardHeader>
-                    <CardContent>
-                      <div ref={contentRef} className="prose prose-sm max-w-none dark:prose-invert">
-                        <ReactMarkdown
-                          remarkPlugins={[remarkGfm]}
-                          components={{
-                            h1: ({ children }) => <h1 className="text-xl font-bold mb-4">{children}</h1>,
-                            h2: ({ children }) => <h2 className="text-lg font-semibold mb-3">{children}</h2>,
-                            h3: ({ children }) => <h3 className="text-base font-semibold mb-2">{children}</h3>,
-                            p: ({ children }) => <p className="mb-3 leading-relaxed">{children}</p>,
-                            ul: ({ children }) => <ul className="list-disc pl-6 mb-3 space-y-1">{children}</ul>,
-                            ol: ({ children }) => <ol className="list-decimal pl-6 mb-3 space-y-1">{children}</ol>,
-                            li: ({ children, ...props }) => <li {...props} className="leading-relaxed">{children}</li>,
-                            code: ({ children, className }) => {
-                              const isInline = !className;
-                              return isInline ? (
-                                <code className="bg-muted px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>
+                {/* Success State */}
+                {queryResult && queryResult.response && (
+                  <div className="space-y-6">
+                    {/* Answer Card */}
+                    <div>
+                      <CardHeader>
+                        <div className="flex items-center justify-between">
+                          <CardTitle className="text-lg">Answer</CardTitle>
+                          <div className="flex items-center gap-2">
+                            <FeedbackControls
+                              value={resultFeedback}
+                              onChange={setResultFeedback}
+                              getContext={getFeedbackContext}
+                            />
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleCopyAnswer}
+                              className="flex items-center gap-2"
+                            >
+                              {isCopied ? (
+                                <>
+                                  <Check className="h-4 w-4 text-green-600" />
+                                  <span className="text-green-600">Copied!</span>
+                                </>
                               ) : (
-                                <code className="block bg-muted p-4 rounded-lg text-sm font-mono whitespace-pre-wrap overflow-x-auto">
-                                  {children}
-                                </code>
-                              );
-                            },
-                            pre: ({ children }) => <div className="mb-4">{children}</div>,
-                            blockquote: ({ children }) => (
-                              <blockquote className="border-l-4 border-muted pl-4 italic mb-4">{children}</blockquote>
-                            ),
-                            table: ({ children }) => (
-                              <div className="my-6 overflow-hidden rounded-lg border border-border shadow-sm">
-                                <div className="overflow-x-auto">
-                                  <table className="min-w-full divide-y divide-border">
-                                    {children}
-                                  </table>
-                                </div>
-                              </div>
-                            ),
-                            thead: ({ children }) => (
-                              <thead className="bg-muted/50">
-                                {children}
-                              </thead>
-                            ),
-                            tbody: ({ children }) => (
-                              <tbody className="divide-y divide-border bg-background">
-                                {children}
-                              </tbody>
-                            ),
-                            tr: ({ children }) => (
-                              <tr className="hover:bg-muted/20 transition-colors">
-                                {children}
-                              </tr>
-                            ),
-                            th: ({ children }) => (
-                              <th className="px-6 py-4 text-left text-sm font-semibold text-foreground uppercase tracking-wider border-r border-border last:border-r-0">
-                                {children}
-                              </th>
-                            ),
-                            td: ({ children }) => (
-                              <td className="px-6 py-4 text-sm text-foreground border-r border-border last:border-r-0">
-                                <div className="max-w-xs break-words">
-                                  {children}
-                                </div>
-                              </td>
-                            ),
-                          }}
-                        >
-                          {queryResult.response}
-                        </ReactMarkdown>
-                      </div>
-                    </CardContent>
-                  </div>
-
-                  {/* Summary Bar */}
-                  <div className="grid grid-cols-2 gap-4">
-                    <div className="flex items-center gap-2 text-sm">
-                      <FileText className="h-4 w-4 text-muted-foreground" />
-                      <span>{queryResult.sources.length} sources retrieved</span>
+                                <>
+                                  <Copy className="h-4 w-4" />
+                                  Copy
+                                </>
+                              )}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={handleDownloadPDF}
+                              disabled={isDownloadingPDF}
+                              className="flex items-center gap-2"
+                            >
+                              {isDownloadingPDF ? (
+                                <>
+                                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                                  <span>Generating...</span>
+                                </>
+                              ) : (
+                                <>
+                                  <Download className="h-4 w-4" />
+                                  PDF
+                                </>
+                              )}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setShowAddToSourcesModal(true)}
+                              className="flex items-center gap-2"
+                            >
+                              <Plus className="h-4 w-4" />
+                              Add to Sources
+                            </Button>
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        <div ref={contentRef} className="prose prose-sm max-w-none dark:prose-invert">
+                          <Markdown sources={queryResult.sources} onCitationSelect={handleCitationSelect}>
+                            {queryResult.response}
+                          </Markdown>
+                        </div>
+                      </CardContent>
                     </div>
-                    {queryResult.confidence_score && (
+
+                    {/* Summary Bar */}
+                    <div className="grid grid-cols-2 gap-4">
                       <div className="flex items-center gap-2 text-sm">
-                        <span className="h-4 w-4 text-muted-foreground">📊</span>
-                        <span>Confidence: {(queryResult.confidence_score * 100).toFixed(1)}%</span>
+                        <FileText className="h-4 w-4 text-muted-foreground" />
+                        <span>{queryResult.sources.length} sources retrieved</span>
                       </div>
+                      {queryResult.confidence_score && (
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="h-4 w-4 text-muted-foreground">📊</span>
+                          <span>Confidence: {(queryResult.confidence_score * 100).toFixed(1)}%</span>
+                        </div>
+                      )}
+                    </div>
+
+                    {/* Sources Section */}
+                    {queryResult.sources && queryResult.sources.length > 0 && (
+                      <Accordion
+                        type="single"
+                        collapsible
+                        value={sourcesPanel}
+                        onValueChange={setSourcesPanel}
+                      >
+                        <AccordionItem value="sources">
+                          <AccordionTrigger>
+                            Sources ({queryResult.sources.length} retrieved)
+                          </AccordionTrigger>
+                          <AccordionContent className="space-y-4">
+                            {queryResult.sources.map((doc, index) => (
+                              <div key={index} ref={registerSource(index + 1)}>
+                                <SourceDocumentCard
+                                  document={doc}
+                                  index={index + 1}
+                                  highlighted={highlighted === index + 1}
+                                />
+                              </div>
+                            ))}
+                          </AccordionContent>
+                        </AccordionItem>
+                      </Accordion>
                     )}
                   </div>
+                )}
 
-                  {/* Sources Section */}
-                  {queryResult.sources && queryResult.sources.length > 0 && (
-                    <Accordion type="single" collapsible>
-                      <AccordionItem value="sources">
-                        <AccordionTrigger>
-                          Sources ({queryResult.sources.length} retrieved)
-                        </AccordionTrigger>
-                        <AccordionContent className="space-y-4">
-                          {queryResult.sources.map((doc, index) => (
-                            <SourceDocumentCard key={index} document={doc} />
-                          ))}
-                        </AccordionContent>
-                      </AccordionItem>
-                    </Accordion>
-                  )}
-                </div>
-              )}
-
-              {/* Empty Response */}
-              {queryResult && !queryResult.response && (
-                <Alert variant="destructive">
-                  <AlertDescription>
-                    No response received from the API
-                  </AlertDescription>
-                </Alert>
-              )}
-            </CardContent>
-          </Card>
+                {/* Empty Response */}
+                {queryResult && !queryResult.response && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      No response received from the API
+                    </AlertDescription>
+                  </Alert>
+                )}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/router";
+import { format } from "date-fns";
+import { Bot, Loader2, Search, User } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { HighlightedText } from "@/components/HighlightedText";
+import { useChatSearch } from "@/hooks/sessions";
+import { useDebouncedValue } from "@/hooks/use-debounce";
+import { MIN_SEARCH_LENGTH, getMessageHref } from "@/lib/chat-search";
+
+export default function SearchPage() {
+  const router = useRouter();
+  const [query, setQuery] = useState("");
+  const debouncedQuery = useDebouncedValue(query);
+
+  // Start from ?q= so searches can be linked to
+  useEffect(() => {
+    if (router.isReady && typeof router.query.q === "string") {
+      setQuery(router.query.q);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady]);
+
+  // Keep the URL in step with the search box without adding history entries
+  useEffect(() => {
+    if (!router.isReady) return;
+    const q = debouncedQuery.trim();
+    if ((router.query.q ?? "") === q) return;
+    router.replace({ pathname: "/search", query: q ? { q } : {} }, undefined, { shallow: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [debouncedQuery, router.isReady]);
+
+  const { data, isLoading, isFetching, error } = useChatSearch(debouncedQuery);
+  const isSearchable = debouncedQuery.trim().length >= MIN_SEARCH_LENGTH;
+
+  const formatDate = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "MMM dd, yyyy HH:mm");
+    } catch {
+      return "";
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-4xl">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold tracking-tight">Search Chat History</h1>
+        <p className="text-muted-foreground">
+          Find messages across every saved conversation.
+        </p>
+      </div>
+
+      <div className="relative mb-6">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search messages..."
+          className="pl-9 pr-9 bg-white"
+          autoFocus
+          aria-label="Search chat history"
+        />
+        {isFetching && (
+          <Loader2 className="absolute right-3 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-muted-foreground" />
+        )}
+      </div>
+
+      {!isSearchable ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <Search className="mx-auto h-12 w-12 mb-4 opacity-50" />
+          <p>Type at least {MIN_SEARCH_LENGTH} characters to search.</p>
+        </div>
+      ) : isLoading ? (
+        <div className="space-y-3">
+          {[...Array(4)].map((_, i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : error ? (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {error instanceof Error ? error.message : "Failed to search chat history"}
+          </AlertDescription>
+        </Alert>
+      ) : data && data.results.length === 0 ? (
+        <div className="text-center py-12 text-muted-foreground">
+          <p>No messages match &ldquo;{data.query}&rdquo;.</p>
+        </div>
+      ) : data ? (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {data.total > data.results.length
+              ? `Showing ${data.results.length} of ${data.total} matches`
+              : `${data.total} match${data.total !== 1 ? "es" : ""}`}
+          </p>
+          {data.results.map((result, index) => (
+            <Link
+              key={`${result.sessionId}-${result.messageId ?? index}`}
+              href={getMessageHref(result.sessionId, result.messageId)}
+              className="block"
+            >
+              <Card className="transition-colors hover:bg-neutral-50">
+                <CardContent className="p-4">
+                  <div className="mb-2 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                    <span className="flex min-w-0 items-center gap-2">
+                      {result.role === "user" ? (
+                        <User className="h-3 w-3 flex-shrink-0" />
+                      ) : (
+                        <Bot className="h-3 w-3 flex-shrink-0" />
+                      )}
+                      <span className="truncate font-medium text-foreground">
+                        {result.sessionTitle}
+                      </span>
+                    </span>
+                    <span className="flex-shrink-0">{formatDate(result.timestamp)}</span>
+                  </div>
+                  <p className="text-sm leading-relaxed">
+                    <HighlightedText text={result.snippet} query={data.query} />
+                  </p>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
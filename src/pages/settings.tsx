@@ -1,14 +1,34 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { AlertCircle, Database, FileText, Hash, Clock, CheckCircle } from "lucide-react";
+import { AlertCircle, Database, FileText, Hash, Clock, CheckCircle, Coins, DollarSign, MessageSquare } from "lucide-react";
 import { StatCard } from "@/components/StatCard";
 import { ConfirmationDialog } from "@/components/ConfirmationDialog";
+import { ImageSettingsCard } from "@/components/ImageSettingsCard";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useMonthlyUsage } from "@/hooks/usage";
 import { healthApi, statsApi, indexApi, formatUptime } from "@/lib/api";
+import { formatCost, formatTokens } from "@/lib/usage";
+
+// "2025-06" -> "June 2025"
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(year, monthIndex - 1).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+};
 
 export default function Settings() {
   const [showRebuildConfirm, setShowRebuildConfirm] = useState(false);
@@ -37,6 +57,15 @@ export default function Settings() {
     refetchInterval: 30000, // Refetch every 30 seconds
   });
 
+  const {
+    data: usageData,
+    isLoading: usageLoading,
+    error: usageError,
+  } = useMonthlyUsage();
+
+  const currentMonth = new Date().toISOString().slice(0, 7);
+  const thisMonthUsage = usageData?.months.find((m) => m.month === currentMonth);
+
   // Handle rebuild indexes
   const handleRebuildIndexes = async () => {
     setIsRebuilding(true);
@@ -162,6 +191,89 @@ export default function Settings() {
         ) : null}
       </div>
 
+      {/* Monthly Spend Section */}
+      <div>
+        <h2 className="text-xl font-semibold mb-4">Monthly Spend</h2>
+        {usageLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {[...Array(3)].map((_, i) => (
+              <Card key={i}>
+                <CardHeader className="pb-2">
+                  <Skeleton className="h-4 w-32" />
+                </CardHeader>
+                <CardContent>
+                  <Skeleton className="h-8 w-16" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : usageError ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Failed to fetch usage data. Please try again later.
+            </AlertDescription>
+          </Alert>
+        ) : usageData ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <StatCard
+                title="Spend This Month"
+                value={formatCost(thisMonthUsage?.cost_usd ?? 0)}
+                icon={DollarSign}
+                description={formatMonth(currentMonth)}
+              />
+              <StatCard
+                title="Tokens This Month"
+                value={formatTokens(thisMonthUsage?.total_tokens ?? 0)}
+                icon={Coins}
+              />
+              <StatCard
+                title="Completions This Month"
+                value={formatTokens(thisMonthUsage?.completions ?? 0)}
+                icon={MessageSquare}
+              />
+            </div>
+
+            {usageData.months.length > 0 && (
+              <Card>
+                <CardContent className="p-0">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Month</TableHead>
+                        <TableHead className="text-right">Completions</TableHead>
+                        <TableHead className="text-right">Tokens</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {usageData.months.map((month) => (
+                        <TableRow key={month.month}>
+                          <TableCell className="font-medium">{formatMonth(month.month)}</TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatTokens(month.completions)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatTokens(month.total_tokens)}
+                          </TableCell>
+                          <TableCell className="text-right tabular-nums">
+                            {formatCost(month.cost_usd)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        ) : null}
+      </div>
+
+      {/* Image Upload Preprocessing */}
+      <ImageSettingsCard />
+
       {/* Global Actions Section */}
       <Card>
         <CardHeader>
@@ -0,0 +1,68 @@
+import { useRouter } from "next/router";
+import { format } from "date-fns";
+import { Link2Off, Share2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { MessageBubble } from "@/components/MessageBubble";
+import { useSharedSnapshot } from "@/hooks/shares";
+
+export default function SharePage() {
+  const router = useRouter();
+  const shareId = typeof router.query.id === "string" ? router.query.id : undefined;
+  const { data: share, isLoading, error } = useSharedSnapshot(shareId);
+
+  const formatDate = (dateString: string) => {
+    try {
+      return format(new Date(dateString), "MMM dd, yyyy HH:mm");
+    } catch {
+      return "";
+    }
+  };
+
+  if (!router.isReady || isLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8 max-w-4xl space-y-4">
+        <Skeleton className="h-10 w-2/3" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-48 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !share) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-4xl text-center text-muted-foreground">
+        <Link2Off className="mx-auto h-12 w-12 mb-4 opacity-50" />
+        <h1 className="text-xl font-semibold text-foreground mb-2">Link unavailable</h1>
+        <p>{error instanceof Error ? error.message : "This link does not exist"}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="border-b bg-white">
+        <div className="container mx-auto px-4 py-6 max-w-4xl">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground mb-1">
+            <Share2 className="h-4 w-4" />
+            <span>Shared {share.kind === "chat" ? "conversation" : "app run"}</span>
+            <Badge variant="secondary">Read-only</Badge>
+          </div>
+          <h1 className="text-2xl font-bold tracking-tight">{share.title}</h1>
+          <p className="text-sm text-muted-foreground">
+            Snapshot taken {formatDate(share.createdAt)}
+            {share.expiresAt && ` · available until ${formatDate(share.expiresAt)}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Messages */}
+      <div className="pb-12">
+        {share.messages.map((message, index) => (
+          <MessageBubble key={message.id ?? index} message={message} />
+        ))}
+      </div>
+    </div>
+  );
+}
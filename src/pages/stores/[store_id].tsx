@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/router";
 import { ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -118,6 +118,14 @@ export default function StoreDetailPage() {
     setShowUploadModal(true);
   };
 
+  // Open the upload modal when the command palette asked for it, then drop the param
+  useEffect(() => {
+    if (!router.isReady || !store || router.query.action !== "upload") return;
+    handleUploadClick();
+    router.replace(`/stores/${store.store_id}`, undefined, { shallow: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.isReady, router.query.action, store]);
+
   // Format date
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
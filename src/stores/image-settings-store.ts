@@ -0,0 +1,26 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { DEFAULT_IMAGE_OPTIONS, ImagePreprocessOptions } from '@/lib/image-preprocess';
+
+interface ImageSettingsStore {
+  options: ImagePreprocessOptions;
+  setOptions: (options: Partial<ImagePreprocessOptions>) => void;
+  resetOptions: () => void;
+}
+
+export const useImageSettingsStore = create<ImageSettingsStore>()(
+  persist(
+    (set) => ({
+      options: DEFAULT_IMAGE_OPTIONS,
+
+      setOptions: (options: Partial<ImagePreprocessOptions>) =>
+        set((state) => ({ options: { ...state.options, ...options } })),
+
+      resetOptions: () => set({ options: DEFAULT_IMAGE_OPTIONS }),
+    }),
+    {
+      name: 'image-preprocessing',
+      partialize: (state) => ({ options: state.options }),
+    }
+  )
+);
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { postTabMessage, subscribeTabMessages } from '@/lib/tab-sync';
 
 interface KnowledgeBaseStore {
   selectedStoreIds: string[];
@@ -34,3 +35,20 @@ export const useKnowledgeBaseStore = create<KnowledgeBaseStore>()(
     }
   )
 );
+
+// Mirror the selection across tabs; `fromOtherTab` keeps an update from echoing back
+if (typeof window !== 'undefined') {
+  let fromOtherTab = false;
+
+  subscribeTabMessages((message) => {
+    if (message.type !== 'kb-selection') return;
+    fromOtherTab = true;
+    useKnowledgeBaseStore.setState({ selectedStoreIds: message.storeIds });
+    fromOtherTab = false;
+  });
+
+  useKnowledgeBaseStore.subscribe((state, prev) => {
+    if (fromOtherTab || state.selectedStoreIds === prev.selectedStoreIds) return;
+    postTabMessage({ type: 'kb-selection', storeIds: state.selectedStoreIds });
+  });
+}
@@ -0,0 +1,46 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { v4 as uuidv4 } from 'uuid';
+import { ProfileSettings, SettingsProfile } from '@/types/chat';
+
+interface SettingsProfilesStore {
+  profiles: SettingsProfile[];
+  /** Saving under an existing name (case-insensitive) overwrites that profile */
+  saveProfile: (name: string, settings: ProfileSettings) => SettingsProfile;
+  deleteProfile: (id: string) => void;
+}
+
+export const useSettingsProfilesStore = create<SettingsProfilesStore>()(
+  persist(
+    (set, get) => ({
+      profiles: [],
+
+      saveProfile: (name: string, settings: ProfileSettings) => {
+        const existing = get().profiles.find(
+          (p) => p.name.toLowerCase() === name.toLowerCase()
+        );
+        const profile: SettingsProfile = {
+          id: existing?.id ?? uuidv4(),
+          name,
+          settings,
+          updatedAt: new Date().toISOString(),
+        };
+        set((state) => ({
+          profiles: existing
+            ? state.profiles.map((p) => (p.id === existing.id ? profile : p))
+            : [...state.profiles, profile].sort((a, b) => a.name.localeCompare(b.name)),
+        }));
+        return profile;
+      },
+
+      deleteProfile: (id: string) =>
+        set((state) => ({
+          profiles: state.profiles.filter((p) => p.id !== id),
+        })),
+    }),
+    {
+      name: 'settings-profiles',
+      partialize: (state) => ({ profiles: state.profiles }),
+    }
+  )
+);
@@ -137,6 +137,7 @@ export interface QueryResponse {
   sources: SourceDocument[];
   confidence_score: number | null;
   metadata: Record<string, unknown> | null;
+  usage?: QueryUsage | null;
 }
 
 // File Upload Types
@@ -39,9 +39,20 @@ export interface AppRun {
   question?: string;
   answer: string;
   sourceDocuments: SourceDocument[];
+  sessionId?: string;   // chat session the run was a turn of
+  messageId?: string;   // assistant message holding the answer
   createdAt: string;
 }
 
+// Records a chat turn answered with an App's configuration
+export interface RecordAppRunRequest {
+  question?: string;
+  answer: string;
+  sourceDocuments: SourceDocument[];
+  sessionId: string;
+  messageId: string;
+}
+
 // Run App Types
 export interface RunAppRequest {
   question?: string;
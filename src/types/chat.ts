@@ -1,8 +1,19 @@
-import { SourceDocument } from "./api";
+import { QueryUsage, SourceDocument } from "./api";
+import { FeedbackState } from "./feedback";
 
 export type ChatRole = "user" | "assistant" | "system";
 
+/** Lifecycle of an assistant reply; absent on messages saved before it existed */
+export type ChatMessageStatus = "streaming" | "complete" | "stopped" | "error";
+
+/** An @-mention scoping a single question to a knowledge base or one document */
+export type ChatMention =
+  | { type: "store"; store_id: string; name: string }
+  | { type: "document"; store_id: string; document_id: string; filename: string };
+
 export interface ChatMessage {
+  id?: string;                // stable id within the session's message tree
+  parent_id?: string | null;  // previous turn on this branch; null for the first message
   role: ChatRole;
   content: string | Array<{
     type: 'text' | 'image';
@@ -15,6 +26,14 @@ export interface ChatMessage {
   timestamp: string;          // ISO string
   sources?: SourceDocument[]; // optional, shown when include_sources is true
   confidence?: number;        // optional, shown when include_confidence is true
+  status?: ChatMessageStatus; // assistant only
+  error?: string;             // set when status is "error"
+  reasoning?: string;         // deep-reasoning trace streamed before the answer
+  reasoning_ms?: number;      // how long the reasoning phase took
+  usage?: QueryUsage;         // tokens and cost reported for this reply
+  mentions?: ChatMention[];   // user only; retrieval scope for this question
+  feedback?: FeedbackState;   // assistant only; the user's rating of this reply
+  app_id?: string;            // assistant only; App whose configuration produced the reply
 }
 
 export interface ChatRequest {
@@ -38,15 +57,18 @@ export interface ChatRequest {
   metadata_filters?: Record<string, unknown>;
 }
 
-export interface ChatStreamChunk {
-  content: string;
-  is_final: boolean;
-  sources?: SourceDocument[];
-  usage?: {
-    total_tokens: number;
-    cost_usd: number;
-  };
-}
+/**
+ * One typed event from the chat stream. The backend's unnamed `data:` events
+ * are split into `content`, `sources` and `usage` chunks so consumers only
+ * have to switch on `type`. Backend errors go to `onError`, not through here.
+ */
+export type ChatStreamChunk =
+  | { type: "content"; content: string; is_final: boolean }
+  | { type: "sources"; sources: SourceDocument[] }
+  | { type: "usage"; usage: QueryUsage }
+  | { type: "confidence"; confidence: number }
+  | { type: "reasoning"; content: string }
+  | { type: "done" };
 
 export interface ChatSettings {
   top_k: number;
@@ -65,3 +87,14 @@ export interface ChatSettings {
   vector_stores: string[];
   metadata_filters: Record<string, unknown>;
 }
+
+/** Settings a profile carries; knowledge bases and filters stay with the session */
+export type ProfileSettings = Partial<Omit<ChatSettings, "vector_stores" | "metadata_filters">>;
+
+/** A named, reusable set of settings such as "precise code lookup" */
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+  updatedAt: string;         // ISO string
+}
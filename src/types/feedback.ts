@@ -0,0 +1,60 @@
+import { SourceDocument } from "./api";
+
+// Feedback Types
+export type FeedbackRating = "up" | "down";
+
+/** Where the rated answer was produced */
+export type FeedbackOrigin = "chat" | "query" | "app";
+
+/** What was asked and answered, captured alongside the rating */
+export interface FeedbackContext {
+  origin: FeedbackOrigin;
+  question: string;
+  answer: string;
+  sources: SourceDocument[];
+  settings: Record<string, unknown>;
+  storeIds: string[];          // knowledge bases that were searched or cited
+  appId?: string;
+  sessionId?: string;
+  messageId?: string;
+}
+
+export interface Feedback extends FeedbackContext {
+  _id: string;
+  rating: FeedbackRating;
+  comment?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateFeedbackRequest extends FeedbackContext {
+  rating: FeedbackRating;
+  comment?: string;
+}
+
+export interface UpdateFeedbackRequest {
+  rating?: FeedbackRating;
+  comment?: string;
+}
+
+/** The saved feedback an answer already has, kept so the controls show it */
+export interface FeedbackState {
+  id: string;
+  rating: FeedbackRating;
+}
+
+export interface FeedbackFilters {
+  rating?: FeedbackRating;
+  storeId?: string;
+  appId?: string;
+  origin?: FeedbackOrigin;
+  page?: number;
+}
+
+// API Response Types
+export interface FeedbackListResponse {
+  feedback: Feedback[];
+  total: number;
+  page: number;
+  limit: number;
+}
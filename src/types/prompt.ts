@@ -0,0 +1,36 @@
+// Prompt Types
+export interface PromptVersion {
+  content: string;
+  createdAt: string;
+}
+
+export interface Prompt {
+  _id: string;
+  name: string;
+  description?: string;
+  content: string;           // may contain {{variable}} placeholders
+  tags: string[];
+  versions: PromptVersion[]; // earlier contents, newest first
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatePromptRequest {
+  name: string;
+  description?: string;
+  content: string;
+  tags?: string[];
+}
+
+export interface UpdatePromptRequest {
+  name?: string;
+  description?: string;
+  content?: string;
+  tags?: string[];
+}
+
+// API Response Types
+export interface PromptsResponse {
+  prompts: Prompt[];
+  total: number;
+}
@@ -0,0 +1,71 @@
+import { ChatMessage, ChatSettings } from "./chat";
+
+// Chat Session Types
+export interface ChatSession {
+  _id: string;
+  sessionId: string;
+  title: string;
+  messages: ChatMessage[];   // every branch of the message tree
+  currentLeafId?: string | null;
+  settings?: ChatSettings | null;  // restored when the session is reopened
+  appId?: string | null;           // App the conversation is held with
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatSessionSummary {
+  _id: string;
+  sessionId: string;
+  title: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SaveChatSessionRequest {
+  title?: string;
+  messages?: ChatMessage[];
+  currentLeafId?: string | null;
+  settings?: ChatSettings | null;
+  appId?: string | null;
+}
+
+// API Response Types
+export interface ChatSessionsResponse {
+  sessions: ChatSessionSummary[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Export Types
+export type ChatExportFormat = "markdown" | "json" | "html";
+
+/**
+ * Versioned JSON export. Bump `version` when the shape changes and add a
+ * migration in lib/chat-export so older files keep importing.
+ */
+export interface ChatExportFile {
+  format: "local-rag-chat";
+  version: number;
+  exported_at: string;       // ISO string
+  title: string;
+  messages: ChatMessage[];   // every branch of the message tree
+  currentLeafId: string | null;
+}
+
+// Search Types
+export interface ChatSearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string | null;  // null for legacy messages saved without ids
+  role: ChatMessage["role"];
+  timestamp: string;
+  snippet: string;           // excerpt around the first match
+}
+
+export interface ChatSearchResponse {
+  query: string;
+  results: ChatSearchResult[];
+  total: number;             // matches found before the limit was applied
+}
@@ -0,0 +1,32 @@
+import { ChatMessage } from "./chat";
+
+// Share Types
+export type ShareKind = "chat" | "app-run";
+
+/** A read-only link; the snapshot itself is only returned by the share page */
+export interface ShareLink {
+  _id: string;
+  shareId: string;              // unguessable id used in /share/[id]
+  kind: ShareKind;
+  sourceId: string;             // chat sessionId or AppRun _id
+  title: string;
+  expiresAt: string | null;     // null when the link never expires
+  createdAt: string;
+}
+
+export interface SharedSnapshot extends ShareLink {
+  messages: ChatMessage[];
+}
+
+export interface CreateShareRequest {
+  kind: ShareKind;
+  sourceId: string;
+  title: string;
+  messages: ChatMessage[];
+  expiresInDays?: number | null;
+}
+
+// API Response Types
+export interface ShareLinksResponse {
+  shares: ShareLink[];
+}
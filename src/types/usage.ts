@@ -0,0 +1,23 @@
+// Token and cost accounting for chat replies, playground queries and App runs
+
+export type UsageOrigin = "chat" | "query" | "app";
+
+export interface RecordUsageRequest {
+  origin: UsageOrigin;
+  total_tokens: number;
+  cost_usd: number;
+  appId?: string;
+  sessionId?: string;
+  messageId?: string;
+}
+
+export interface MonthlyUsage {
+  month: string;          // "YYYY-MM"
+  total_tokens: number;
+  cost_usd: number;
+  completions: number;    // completions that reported usage
+}
+
+export interface MonthlyUsageResponse {
+  months: MonthlyUsage[]; // most recent first
+}